@@ -1,6 +1,12 @@
 import { type ManagedCollectionFieldInput, framer, type ManagedCollection } from "framer-plugin"
 import { useEffect, useState } from "react"
-import { type GetDataSourceResult, mergeFieldsWithExistingFields, syncCollection } from "./data"
+import {
+    findUnknownTemplateFields,
+    type GetDataSourceResult,
+    mergeFieldsWithExistingFields,
+    PLUGIN_KEYS,
+    syncCollection,
+} from "./data"
 
 interface FieldMappingRowProps {
     field: ManagedCollectionFieldInput
@@ -94,6 +100,13 @@ export function FieldMapping({ collection, dataSourceResult, initialSlugFieldId,
         possibleSlugFields.find(field => field.id === initialSlugFieldId) ?? defaultSlugField
     )
 
+    // Checkbox, select or text columns can decide whether an item is published or a draft
+    const possiblePublishedFields = dataSource.fields.filter(
+        field => field.type === "boolean" || field.type === "enum" || field.type === "string"
+    )
+    const [selectedPublishedFieldId, setSelectedPublishedFieldId] = useState("")
+    const [slugTemplate, setSlugTemplate] = useState("")
+
     const [fields, setFields] = useState(initialManagedCollectionFields)
     const [ignoredFieldIds, setIgnoredFieldIds] = useState(initialFieldIds)
     const [use12HourTimeFormat, setUse12HourTimeFormat] = useState(false) // New state for time format
@@ -108,6 +121,18 @@ export function FieldMapping({ collection, dataSourceResult, initialSlugFieldId,
             }
         })
 
+        collection.getPluginData(PLUGIN_KEYS.PUBLISHED_FIELD_ID).then(storedFieldId => {
+            if (!abortController.signal.aborted) {
+                setSelectedPublishedFieldId(storedFieldId ?? "")
+            }
+        })
+
+        collection.getPluginData(PLUGIN_KEYS.SLUG_TEMPLATE).then(storedTemplate => {
+            if (!abortController.signal.aborted) {
+                setSlugTemplate(storedTemplate ?? "")
+            }
+        })
+
         collection
             .getFields()
             .then(collectionFields => {
@@ -188,6 +213,12 @@ export function FieldMapping({ collection, dataSourceResult, initialSlugFieldId,
             return
         }
 
+        const unknownTemplateFields = findUnknownTemplateFields(slugTemplate, dataSource.fields)
+        if (unknownTemplateFields.length > 0) {
+            framer.notify(`Slug template refers to unknown column(s): ${unknownTemplateFields.join(", ")}`, { variant: "warning" })
+            return
+        }
+
         try {
             setStatus("syncing-collection")
 
@@ -221,8 +252,17 @@ export function FieldMapping({ collection, dataSourceResult, initialSlugFieldId,
             })
 
             const fieldsToSync = sanitizedFields.filter(field => !ignoredFieldIds.has(field.id))
-            await syncCollection(collection, dataSourceResult, fieldsToSync, selectedSlugField)
-            await framer.closePlugin("Synchronization successful", { variant: "success" })
+            const publishedField = sanitizedFields.find(field => field.id === selectedPublishedFieldId) ?? null
+            const { warnings } = await syncCollection(collection, dataSourceResult, fieldsToSync, selectedSlugField, {
+                publishedField,
+                slugTemplate: slugTemplate.trim() || null,
+            })
+            await framer.closePlugin(
+                warnings.length > 0
+                    ? `Synchronization successful. ${warnings.length} duplicate slug(s) were given a numeric suffix.`
+                    : "Synchronization successful",
+                { variant: "success" }
+            )
         } catch (error) {
             console.error(error)
             framer.notify(`Failed to sync collection "${dataSource.id}". Check the logs for more details.`, {
@@ -339,6 +379,40 @@ export function FieldMapping({ collection, dataSourceResult, initialSlugFieldId,
                         </select>
                     </label>
 
+                    <label className="slug-field" htmlFor="slugTemplate">
+                        Slug Template (optional, replaces the slug field)
+                        <input
+                            type="text"
+                            name="slugTemplate"
+                            className="field-input"
+                            placeholder="{Title}-{Date}"
+                            value={slugTemplate}
+                            onChange={event => setSlugTemplate(event.target.value)}
+                        />
+                    </label>
+                    <p style={{ fontSize: "0.9em", color: "#666", marginTop: "5px" }}>
+                        Slugs are made URL-safe, and duplicates get a numeric suffix such as "-2".
+                    </p>
+
+                    <label className="slug-field" htmlFor="publishedField">
+                        Published Field (other values are kept as drafts)
+                        <select
+                            name="publishedField"
+                            className="field-input"
+                            value={selectedPublishedFieldId}
+                            onChange={event => setSelectedPublishedFieldId(event.target.value)}
+                        >
+                            <option value="">None (publish every item)</option>
+                            {possiblePublishedFields.map(possiblePublishedField => {
+                                return (
+                                    <option key={`published-field-${possiblePublishedField.id}`} value={possiblePublishedField.id}>
+                                        {possiblePublishedField.name}
+                                    </option>
+                                )
+                            })}
+                        </select>
+                    </label>
+
                     {/* Select All Toggle Button */}
                     <label style={{ display: 'flex', alignItems: 'center', margin: '16px 0 8px 0', fontWeight: 500 }}>
                         <input
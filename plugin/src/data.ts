@@ -7,6 +7,7 @@ import {
 } from "framer-plugin"
 import { marked } from "marked";
 import DOMPurify from "dompurify";
+import { isRetryableStatus, parseRetryAfter, withRetry } from "./retry";
 
 interface WebPage {
     '@type': 'WebPage';
@@ -50,8 +51,42 @@ export const PLUGIN_KEYS = {
     DATA_SOURCE_ID: "dataSourceId",
     SLUG_FIELD_ID: "slugFieldId",
     CODA_TABLE_ID: "codaTableId",
+    PUBLISHED_FIELD_ID: "publishedFieldId",
+    SLUG_TEMPLATE: "slugTemplate",
 } as const
 
+// Responses worth another try, carried out of withRetry so the last one can
+// still be returned to the caller.
+class RetryableResponseError extends Error {
+    constructor(readonly response: Response, readonly retryAfterMs?: number) {
+        super(`Coda responded with ${response.status}`)
+    }
+}
+
+/**
+ * fetch() for Coda GET requests, which are safe to repeat. Uses the same retry
+ * policy as the pack and CLI (./retry is a copy of src/retry.ts): rate limits
+ * (429), server errors (5xx) and dropped connections are retried with backoff,
+ * and the wait stops as soon as init.signal aborts. The last response is
+ * returned as-is so callers keep their own error handling.
+ */
+async function fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+    try {
+        return await withRetry(async () => {
+            const response = await fetch(url, init)
+            if (!isRetryableStatus(response.status)) return response
+            throw new RetryableResponseError(response, parseRetryAfter(response.headers.get('Retry-After')))
+        }, {
+            // fetch() rejects with a TypeError when the connection fails; aborts are not retried
+            isRetryable: error => error instanceof RetryableResponseError || error instanceof TypeError,
+            signal: init.signal ?? undefined,
+        })
+    } catch (error) {
+        if (error instanceof RetryableResponseError) return error.response
+        throw error
+    }
+}
+
 /**
  * Find a managed collection that was synced from a specific Coda table
  * Note: Coda lookup fields reference base table IDs, but users may sync views.
@@ -86,7 +121,7 @@ async function findCollectionByCodaTableId(codaTableId: string): Promise<{ id: s
             // Fetch the table metadata for the stored table to see if it references the requested table
             try {
                 const tableUrl = `https://coda.io/apis/v1/docs/${docId}/tables/${storedTableId}`;
-                const response = await fetch(tableUrl, {
+                const response = await fetchWithRetry(tableUrl, {
                     headers: { 'Authorization': `Bearer ${apiKey}` }
                 });
                 
@@ -763,6 +798,8 @@ function transformCodaValue(value: unknown, field: ManagedCollectionFieldInput,
                 if (typeof item === 'string') return item;
                 if (typeof item === 'object' && item !== null) {
                     const obj = item as Record<string, unknown>;
+                    // Coda lookup values use rowId property for the referenced row's ID
+                    if ('rowId' in obj && typeof obj.rowId === 'string') return obj.rowId;
                     if ('id' in obj && typeof obj.id === 'string') return obj.id;
                     if ('@id' in obj && typeof obj['@id'] === 'string') return obj['@id'];
                 }
@@ -940,10 +977,9 @@ export async function getCodaDataSource(
 
     let hasImageOrFileFields = false;
     let hasValidImageOrFileUrls = false;
-
     // First, fetch the table metadata to get the actual Coda table ID
     const tableUrl = `https://coda.io/apis/v1/docs/${docId}/tables/${tableId}`
-    const tableResponse = await fetch(tableUrl, {
+    const tableResponse = await fetchWithRetry(tableUrl, {
         ...(signal ? { signal } : {}),
         headers
     })
@@ -965,7 +1001,7 @@ export async function getCodaDataSource(
 
     // Now fetch the columns metadata
     const columnsUrl = `https://coda.io/apis/v1/docs/${docId}/tables/${tableId}/columns`
-    const columnsResponse = await fetch(columnsUrl, {
+    const columnsResponse = await fetchWithRetry(columnsUrl, {
         ...(signal ? { signal } : {}),
         headers
     })
@@ -985,7 +1021,7 @@ export async function getCodaDataSource(
 
     // Fetch rows with rich text formatting
     const rowsUrl = `https://coda.io/apis/v1/docs/${docId}/tables/${tableId}/rows?useRichText=true&valueFormat=rich`
-    const rowsResponse = await fetch(rowsUrl, {
+    const rowsResponse = await fetchWithRetry(rowsUrl, {
         ...(signal ? { signal } : {}),
         headers,
     })
@@ -1008,7 +1044,7 @@ export async function getCodaDataSource(
     // Discover referenced collections for lookup fields
     const lookupCollectionMap = new Map<string, { id: string, name: string }>();
     for (const col of columns) {
-        if (col.format.type.toLowerCase() === 'lookup' && col.format.isArray && col.format.table?.id) {
+        if (col.format.type.toLowerCase() === 'lookup' && col.format.table?.id) {
             const referencedCollection = await findCollectionByCodaTableId(col.format.table.id);
             if (referencedCollection) {
                 lookupCollectionMap.set(col.id, referencedCollection);
@@ -1036,6 +1072,20 @@ export async function getCodaDataSource(
                 };
             }
         }
+
+        // Single-value lookups link to one item when the referenced collection exists,
+        // and only fall back to an enum of row names when it doesn't
+        if (mappedField && mappedField.type === 'enum' && col.format.type.toLowerCase() === 'lookup' && !col.format.isArray) {
+            const referencedCollection = lookupCollectionMap.get(col.id);
+            if (referencedCollection) {
+                mappedField = {
+                    id: col.id,
+                    name: col.name,
+                    type: 'collectionReference',
+                    collectionId: referencedCollection.id
+                };
+            }
+        }
         
         if (mappedField && (mappedField.type === 'image' || mappedField.type === 'file')) {
             hasImageOrFileFields = true;
@@ -1166,12 +1216,108 @@ export function mergeFieldsWithExistingFields(
     })
 }
 
+const PUBLISHED_VALUES = new Set(["true", "yes", "published", "live", "public"])
+
+/**
+ * Decide whether an item goes live from its published field entry: a checked
+ * boolean, or an enum/string value such as "Published", "Live" or "Yes".
+ * Anything else keeps the item as a draft.
+ */
+function isPublishedEntry(entry: unknown, field: ManagedCollectionFieldInput): boolean {
+    if (typeof entry !== "object" || entry === null || !("value" in entry)) return false
+    const value = (entry as { value: unknown }).value
+    if (typeof value === "boolean") return value
+    let text = typeof value === "string" ? value : ""
+    if (field.type === "enum" && "cases" in field && Array.isArray(field.cases)) {
+        text = field.cases.find(enumCase => enumCase.id === value)?.name ?? text
+    }
+    return PUBLISHED_VALUES.has(text.trim().toLowerCase())
+}
+
+/**
+ * Make a slug URL-safe: accents are folded, letters are lowercased and any run
+ * of other characters becomes a single hyphen.
+ */
+export function slugify(text: string): string {
+    return text
+        .normalize("NFKD")
+        .replace(/\p{M}/gu, "")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .replace(/^-+|-+$/g, "")
+}
+
+const SLUG_TEMPLATE_PLACEHOLDER = /\{([^{}]+)\}/g
+
+function findTemplateField(fields: readonly ManagedCollectionFieldInput[], key: string) {
+    const trimmed = key.trim()
+    return fields.find(field => field.id === trimmed)
+        ?? fields.find(field => field.name.toLowerCase() === trimmed.toLowerCase())
+}
+
+// Placeholders in a slug template that match no field id or column name
+export function findUnknownTemplateFields(template: string, fields: readonly ManagedCollectionFieldInput[]): string[] {
+    return [...template.matchAll(SLUG_TEMPLATE_PLACEHOLDER)]
+        .map(match => match[1] ?? "")
+        .filter(key => !findTemplateField(fields, key))
+}
+
+function renderSlugTemplate(
+    template: string,
+    item: Record<string, FieldDataEntryInput>,
+    fields: readonly ManagedCollectionFieldInput[]
+): string {
+    return template.replace(SLUG_TEMPLATE_PLACEHOLDER, (_match, key: string) => {
+        const field = findTemplateField(fields, key)
+        const entry = field ? item[field.id] : undefined
+        if (!field || !entry || entry.value === null || entry.value === undefined) return ""
+        if (field.type === "enum" && "cases" in field && Array.isArray(field.cases)) {
+            return field.cases.find(enumCase => enumCase.id === entry.value)?.name ?? String(entry.value)
+        }
+        if (field.type === "date" && typeof entry.value === "string") {
+            // Keep only the day so "{Title}-{Date}" stays short
+            return entry.value.slice(0, 10)
+        }
+        return typeof entry.value === "object" ? "" : String(entry.value)
+    })
+}
+
+/**
+ * Give every item a unique slug. Later items that reuse an earlier slug get the
+ * first free "-2", "-3"... suffix, in row order so re-syncs stay stable.
+ * Returns one warning per renamed item.
+ */
+function resolveSlugCollisions(items: ManagedCollectionItemInput[]): string[] {
+    const owners = new Map<string, string>()
+    const warnings: string[] = []
+    for (const item of items) {
+        const owner = owners.get(item.slug)
+        if (owner !== undefined) {
+            let suffix = 2
+            while (owners.has(`${item.slug}-${suffix}`)) suffix += 1
+            const slug = `${item.slug}-${suffix}`
+            warnings.push(`Slug "${item.slug}" is already used by item ${owner}; row ${item.id} was given "${slug}".`)
+            item.slug = slug
+        }
+        owners.set(item.slug, item.id)
+    }
+    return warnings
+}
+
+export interface SyncOptions {
+    // Field whose value decides whether each item is published or a draft
+    publishedField?: ManagedCollectionFieldInput | null
+    // Builds each slug from field values, e.g. "{Title}-{Date}", instead of the slug field
+    slugTemplate?: string | null
+}
+
 export async function syncCollection(
     collection: ManagedCollection,
     dataSourceResult: GetDataSourceResult,
     fields: ManagedCollectionFieldInput[],
-    slugField: ManagedCollectionFieldInput
-) {
+    slugField: ManagedCollectionFieldInput,
+    { publishedField = null, slugTemplate = null }: SyncOptions = {}
+): Promise<{ warnings: string[] }> {
     const { dataSource } = dataSourceResult;
     // Create a map of fields by ID for faster lookup
     const fieldMap = new Map(fields.map(field => [field.id, field]))
@@ -1204,9 +1350,13 @@ export async function syncCollection(
         }
 
         const slugFieldData = item[slugField.id]
-        const slugValue = typeof slugFieldData === "object" && slugFieldData && "value" in slugFieldData
-            ? String(slugFieldData.value)
-            : undefined
+        const slugValue = slugify(
+            slugTemplate
+                ? renderSlugTemplate(slugTemplate, item, dataSource.fields)
+                : typeof slugFieldData === "object" && slugFieldData && "value" in slugFieldData
+                    ? String(slugFieldData.value)
+                    : ""
+        )
 
         if (!slugValue) {
             console.warn(`Skipping item at index ${i} because it doesn't have a valid slug`)
@@ -1241,7 +1391,8 @@ export async function syncCollection(
         items.push({
             id: rowId,
             slug: slugValue,
-            draft: false,
+            // Without a published field every item goes live, as before
+            draft: publishedField ? !isPublishedEntry(item[publishedField.id], publishedField) : false,
             fieldData,
         })
     }
@@ -1253,24 +1404,31 @@ export async function syncCollection(
             return field;
         }
         // For multi-collection reference fields, ensure collectionId is present
-        if (field.type === 'multiCollectionReference') {
+        if (field.type === 'collectionReference' || field.type === 'multiCollectionReference') {
             if (!('collectionId' in field) || typeof (field as { collectionId?: unknown }).collectionId !== 'string') {
-                // Skip invalid multi-collection reference fields
+                // Skip invalid collection reference fields
                 return null;
             }
         }
         return field;
     }).filter((field): field is ManagedCollectionFieldInput => !!field && typeof field.id === 'string' && typeof field.name === 'string' && typeof field.type === 'string');
+    const warnings = resolveSlugCollisions(items)
+    warnings.forEach(warning => console.warn(warning))
+
     await collection.setFields([...compatibleFields])
     await collection.removeItems(Array.from(unsyncedItems))
     await collection.addItems(items)
 
     await collection.setPluginData(PLUGIN_KEYS.DATA_SOURCE_ID, dataSource.id)
     await collection.setPluginData(PLUGIN_KEYS.SLUG_FIELD_ID, slugField.id)
+    await collection.setPluginData(PLUGIN_KEYS.PUBLISHED_FIELD_ID, publishedField?.id ?? null)
+    await collection.setPluginData(PLUGIN_KEYS.SLUG_TEMPLATE, slugTemplate || null)
     
     // Store the actual Coda table ID (not the Framer collection ID)
     const codaTableIdToStore = dataSourceResult.codaTableId || dataSource.id;
     await collection.setPluginData(PLUGIN_KEYS.CODA_TABLE_ID, codaTableIdToStore)
+
+    return { warnings }
 }
 
 export async function syncExistingCollection(
@@ -1295,7 +1453,7 @@ export async function syncExistingCollection(
         
         // Validate fields
         const compatibleFields = mergedFields.map((field) => {
-            if (field.type === 'multiCollectionReference') {
+            if (field.type === 'collectionReference' || field.type === 'multiCollectionReference') {
                 if (!('collectionId' in field) || typeof (field as { collectionId?: unknown }).collectionId !== 'string') {
                     return null;
                 }
@@ -1311,7 +1469,16 @@ export async function syncExistingCollection(
             console.error(`No field matches the slug field id "${previousSlugFieldId}". Sync will not be performed.`)
             return { didSync: false }
         }
-        await syncCollection(collection, dataSourceResult, [...compatibleFields], slugField)
+        const previousPublishedFieldId = await collection.getPluginData(PLUGIN_KEYS.PUBLISHED_FIELD_ID)
+        const publishedField = previousPublishedFieldId
+            ? compatibleFields.find(field => field.id === previousPublishedFieldId)
+            : null
+        if (publishedField === undefined) {
+            console.error(`No field matches the published field id "${previousPublishedFieldId}". Sync will not be performed.`)
+            return { didSync: false }
+        }
+        const slugTemplate = await collection.getPluginData(PLUGIN_KEYS.SLUG_TEMPLATE)
+        await syncCollection(collection, dataSourceResult, [...compatibleFields], slugField, { publishedField, slugTemplate })
         return { didSync: true }
     } catch (error) {
         console.error(error)
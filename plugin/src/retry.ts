@@ -0,0 +1,91 @@
+// Copy of src/retry.ts for the plugin, which is built on its own and cannot
+// import from the pack. Keep the limits and behaviour of the two in step.
+
+export type RetryStats = { retries: number }
+
+export type RetryOptions = {
+    /** Decides whether a failure is transient; anything else is thrown at once. */
+    isRetryable: (error: unknown) => boolean
+    stats?: RetryStats
+    maxAttempts?: number
+    baseDelayMs?: number
+    maxDelayMs?: number
+    /** Stops the wait between attempts; the abort reason is thrown. */
+    signal?: AbortSignal
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4
+const DEFAULT_BASE_DELAY_MS = 500
+// Never wait longer than this for a single retry; a longer Retry-After fails the call instead.
+const DEFAULT_MAX_DELAY_MS = 8_000
+
+/** An error that carries the server's requested wait, e.g. from a 429 with a Retry-After header. */
+export type RetryAfterError = Error & { retryAfterMs?: number }
+
+/** Parse a Retry-After header given in seconds or as an HTTP date. */
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | undefined {
+    if (!header) return undefined
+    const seconds = Number(header)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(header)
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/** 429 and 5xx responses are worth another try; other statuses are not. */
+export function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500
+}
+
+function retryDelay(error: unknown, attempt: number, baseDelayMs: number, maxDelayMs: number): number | null {
+    const retryAfterMs = (error as RetryAfterError | null)?.retryAfterMs
+    if (retryAfterMs !== undefined) {
+        return retryAfterMs <= maxDelayMs ? retryAfterMs : null
+    }
+    // Jitter keeps parallel clients from retrying in lockstep
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2))
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason)
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(signal!.reason)
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener("abort", onAbort, { once: true })
+    })
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff.
+ * Only wrap operations that are safe to repeat, such as Coda GET requests.
+ */
+export async function withRetry<T>(
+    operation: () => Promise<T>,
+    {
+        isRetryable,
+        stats,
+        maxAttempts = DEFAULT_MAX_ATTEMPTS,
+        baseDelayMs = DEFAULT_BASE_DELAY_MS,
+        maxDelayMs = DEFAULT_MAX_DELAY_MS,
+        signal,
+    }: RetryOptions
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation()
+        } catch (error) {
+            if (signal?.aborted) throw signal.reason
+            if (attempt >= maxAttempts || !isRetryable(error)) throw error
+            const delay = retryDelay(error, attempt, baseDelayMs, maxDelayMs)
+            if (delay === null) throw error
+            if (stats) stats.retries++
+            await sleep(delay, signal)
+        }
+    }
+}
@@ -0,0 +1,126 @@
+// Offline smoke check for the built CLI (dist/cli.mjs). Serves a stub Coda API
+// and a Framer endpoint that closes every connection as unauthorized, then
+// checks that `sync --dry-run` reads the table over HTTP and fails cleanly at
+// Framer.
+// Run with `npm run smoke:cli`; nothing leaves the machine.
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI_PATH = fileURLToPath(new URL("../dist/cli.mjs", import.meta.url));
+const CODA_API_KEY = "smoke-coda-key";
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+// Close frame with status 1008 (policy violation), as for a rejected API key.
+const CLOSE_FRAME = Buffer.from([0x88, 0x02, 0x03, 0xf0]);
+
+const codaResponses = {
+  "/docs/doc-smoke/tables/grid-posts": { id: "grid-posts", name: "Posts" },
+  "/docs/doc-smoke/tables/grid-posts/columns": {
+    items: [{ id: "c-title", name: "Title", format: { type: "text" } }],
+  },
+  "/docs/doc-smoke/tables/grid-posts/rows": {
+    items: [
+      { id: "i-1", values: { "c-title": "Hello" } },
+      { id: "i-2", values: { "c-title": "World" } },
+    ],
+  },
+};
+
+function fail(message) {
+  throw new Error(`smoke check failed: ${message}`);
+}
+
+function startStubServer() {
+  const requests = [];
+  const server = createServer((request, response) => {
+    const { pathname } = new URL(request.url, "http://localhost");
+    requests.push({ pathname, authorization: request.headers.authorization });
+    const body = codaResponses[pathname];
+    response.writeHead(body ? 200 : 404, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body ?? { message: "Not found" }));
+  });
+  // Stand-in for the Framer Server API: accept the WebSocket handshake, then
+  // close the connection straight away.
+  server.on("upgrade", (request, socket) => {
+    const accept = createHash("sha1")
+      .update(`${request.headers["sec-websocket-key"]}${WEBSOCKET_GUID}`)
+      .digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    );
+    socket.end(CLOSE_FRAME);
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve({ server, requests }));
+  });
+}
+
+function runCli(args) {
+  // The CLI needs a global WebSocket, which Node 20 and 21 only provide behind a flag.
+  const major = Number(process.versions.node.split(".")[0]);
+  const nodeArgs = major < 22 ? ["--experimental-websocket"] : [];
+  return new Promise((resolve) => {
+    execFile(
+      process.execPath,
+      [...nodeArgs, CLI_PATH, ...args],
+      { timeout: 60_000, env: { ...process.env, CODA_API_KEY, FRAMER_API_KEY: "smoke-framer-key" } },
+      (error, stdout, stderr) => {
+        resolve({ code: error ? (error.code ?? 1) : 0, stdout, stderr });
+      },
+    );
+  });
+}
+
+async function main() {
+  if (!existsSync(CLI_PATH)) fail("dist/cli.mjs is missing; run `npm run build:cli` first.");
+
+  const help = await runCli(["--help"]);
+  if (help.code !== 0 || !help.stdout.includes("Usage: coda-to-framer")) {
+    fail(`--help exited with ${help.code}:\n${help.stdout}${help.stderr}`);
+  }
+
+  const { server, requests } = await startStubServer();
+  const { port } = server.address();
+  const directory = await mkdtemp(join(tmpdir(), "coda-to-framer-smoke-"));
+  try {
+    const configPath = join(directory, "sync.json");
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        coda: { docId: "doc-smoke", baseUrl: `http://127.0.0.1:${port}` },
+        framer: {
+          projectUrl: "https://framer.com/projects/Smoke--aaaaaaaaaaaaaaaaaaaa",
+          serverUrl: `ws://127.0.0.1:${port}/framer`,
+        },
+        tables: [{ tableId: "grid-posts", collectionName: "Posts", slugFieldId: "c-title" }],
+      }),
+    );
+
+    const sync = await runCli(["sync", "--config", configPath, "--dry-run"]);
+    const output = `${sync.stdout}${sync.stderr}`;
+    if (!sync.stdout.includes('Read 2 row(s) from "Posts".')) {
+      fail(`the stub Coda table was not read:\n${output}`);
+    }
+    if (requests.some((request) => request.authorization !== `Bearer ${CODA_API_KEY}`)) {
+      fail("a Coda request was sent without the API key.");
+    }
+    if (sync.code !== 1 || !sync.stderr.includes("error:")) {
+      fail(`expected a clean failure at the stub Framer endpoint, got exit ${sync.code}:\n${output}`);
+    }
+  } finally {
+    server.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+  console.log("✓ CLI smoke check passed");
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+});
@@ -0,0 +1,197 @@
+import { fetchCodaTable } from "./coda-api";
+import { buildReferenceMap, orderByLookupDependencies, type NormalizedRow } from "./mapping";
+import { publishIfRequested, pushTable } from "./push";
+import type { RetryStats } from "./retry";
+import { getRetryCount, openSession } from "./session";
+import {
+  prepareTable,
+  readSyncConfig,
+  requireKey,
+  type PreparedTable,
+  type SyncConfig,
+} from "./sync-config";
+import { serveWebhooks } from "./webhook";
+
+const USAGE = `Usage: coda-to-framer sync --config <sync.json> [--dry-run] [--publish]
+       coda-to-framer serve --config <sync.json> [--port <port>] [--publish]
+
+sync   Read each configured Coda table over the Coda REST API and push it to a
+       Framer managed collection, referenced tables first.
+serve  Listen for Coda automation webhooks and push the changed rows of each
+       configured table, plus removals.
+
+Options:
+  --config <path>  Sync config file (required)
+  --dry-run        Report the changes without writing to Framer (sync only)
+  --publish        Publish and deploy the project after each successful push
+  --port <port>    Port for serve (default: webhook.port, then 8787)
+  --help           Show this message`;
+
+type CliArgs = {
+  command?: string;
+  configPath?: string;
+  port?: number;
+  dryRun: boolean;
+  publish: boolean;
+  help: boolean;
+};
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { dryRun: false, publish: false, help: false };
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index]!;
+    if (arg === "--config") {
+      args.configPath = argv[++index];
+    } else if (arg.startsWith("--config=")) {
+      args.configPath = arg.slice("--config=".length);
+    } else if (arg === "--port") {
+      args.port = Number(argv[++index]);
+    } else if (arg.startsWith("--port=")) {
+      args.port = Number(arg.slice("--port=".length));
+    } else if (arg === "--dry-run") {
+      args.dryRun = true;
+    } else if (arg === "--publish") {
+      args.publish = true;
+    } else if (arg === "--help" || arg === "-h") {
+      args.help = true;
+    } else if (!arg.startsWith("-") && !args.command) {
+      args.command = arg;
+    } else {
+      throw new Error(`Unknown option "${arg}".\n\n${USAGE}`);
+    }
+  }
+  return args;
+}
+
+async function sync(config: SyncConfig, dryRun: boolean, publish: boolean): Promise<boolean> {
+  const codaApiKey = requireKey(config.coda.apiKey, "CODA_API_KEY", "coda.apiKey");
+  const framerApiKey = requireKey(config.framer.apiKey, "FRAMER_API_KEY", "framer.apiKey");
+  const referenceOverrides = buildReferenceMap(config.referenceMap);
+  const codaRetries: RetryStats = { retries: 0 };
+
+  const tables: Array<PreparedTable & { rows: NormalizedRow[]; pruneMissing: boolean }> = [];
+  for (const tableConfig of config.tables) {
+    const data = await fetchCodaTable(config.coda.docId, tableConfig.tableId, {
+      apiKey: codaApiKey,
+      baseUrl: config.coda.baseUrl,
+      retryStats: codaRetries,
+    });
+    console.log(`Read ${data.rows.length} row(s) from "${data.tableName}".`);
+    tables.push({
+      ...prepareTable(tableConfig, data),
+      rows: data.rows,
+      pruneMissing: Boolean(tableConfig.pruneMissing),
+    });
+  }
+
+  const { order, cyclic, unlinked } = orderByLookupDependencies(
+    tables.map((table) => ({ tableId: table.sourceTableId, columns: table.columns })),
+  );
+  if (cyclic.length > 0) {
+    console.warn(
+      `warning: ${cyclic.map((index) => `"${tables[index]!.collectionName}"`).join(", ")} reference each other. Run the sync again to link every reference.`,
+    );
+  }
+  if (unlinked.length > 0) {
+    console.warn(
+      `warning: ${unlinked.map((index) => `"${tables[index]!.collectionName}"`).join(", ")} have lookup columns without a table id, so their place in the order follows the config. List referenced tables first, or run the sync again to link every reference.`,
+    );
+  }
+
+  using framer = await openSession(config.framer.projectUrl, framerApiKey, {
+    serverUrl: config.framer.serverUrl,
+  });
+  for (const index of order) {
+    const result = await pushTable(framer, {
+      ...tables[index]!,
+      referenceOverrides,
+      use12HourTime: Boolean(config.use12HourTime),
+      dryRun,
+      abortOnMissingReference: Boolean(config.abortOnMissingReference),
+      deadline: Number.POSITIVE_INFINITY,
+    });
+    console.log(
+      `${dryRun ? "[dry run] " : ""}${result.collectionName}: ${result.itemsCreated} created, ${result.itemsUpdated} updated, ${result.itemsUnchanged} unchanged, ${result.itemsRemoved} removed, ${result.itemsSkipped} skipped.`,
+    );
+    for (const warning of result.warnings) {
+      console.warn(`  warning: ${warning}`);
+    }
+    if (dryRun && !result.collectionId && index !== order[order.length - 1]) {
+      console.warn(
+        `  warning: "${result.collectionName}" does not exist yet, so this dry run reports references to it from later tables as missing. A real sync creates it first.`,
+      );
+    }
+    // Without a deadline a token only comes back when a batch failed.
+    if (result.continuationToken) {
+      console.error(`Stopped partway through "${result.collectionName}"; nothing was published.`);
+      reportRetries(codaRetries.retries, getRetryCount(framer));
+      return false;
+    }
+  }
+
+  if (publish && !dryRun) {
+    const published = await publishIfRequested(framer, true);
+    console.log(
+      published?.published
+        ? `Published and deployed ${published.changeCount} change(s) as deployment ${published.deploymentId}.`
+        : "No pending changes to publish.",
+    );
+  }
+  reportRetries(codaRetries.retries, getRetryCount(framer));
+  return true;
+}
+
+function reportRetries(codaRetries: number, framerRetries: number): void {
+  if (codaRetries + framerRetries === 0) return;
+  console.log(
+    `Retried ${codaRetries} Coda and ${framerRetries} Framer call(s) after transient failures.`,
+  );
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  if (args.help || !args.command) {
+    console.log(USAGE);
+    return args.help ? 0 : 1;
+  }
+  if (args.command !== "sync" && args.command !== "serve") {
+    throw new Error(`Unknown command "${args.command}".\n\n${USAGE}`);
+  }
+  if (!args.configPath) {
+    throw new Error(`Missing --config.\n\n${USAGE}`);
+  }
+  // framer-api connects over the global WebSocket, which Node.js has had
+  // unflagged since version 22. Only the CLI needs it, not the pack build.
+  if (typeof globalThis.WebSocket !== "function") {
+    throw new Error(
+      `coda-to-framer needs Node.js 22 or later (found ${process.version}), which provides a global WebSocket.`,
+    );
+  }
+  const config = await readSyncConfig(args.configPath);
+  if (args.command === "serve") {
+    if (args.port !== undefined && !Number.isInteger(args.port)) {
+      throw new Error("--port must be a whole number.");
+    }
+    await serveWebhooks(config, {
+      port: args.port,
+      publish: args.publish || Boolean(config.publish),
+    });
+    return 0;
+  }
+  const succeeded = await sync(
+    config,
+    args.dryRun,
+    args.publish || Boolean(config.publish),
+  );
+  return succeeded ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(`error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  },
+);
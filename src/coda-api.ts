@@ -0,0 +1,177 @@
+import type { CodaColumnInput, NormalizedRow } from "./mapping";
+import {
+  isRetryableStatus,
+  parseRetryAfter,
+  withRetry,
+  type RetryStats,
+} from "./retry";
+
+export const CODA_API_BASE_URL = "https://coda.io/apis/v1";
+
+type CodaPage<T> = {
+  items: T[];
+  nextPageToken?: string;
+};
+
+export type CodaTableData = {
+  tableId: string;
+  tableName: string;
+  columns: CodaColumnInput[];
+  rows: NormalizedRow[];
+};
+
+export type CodaApiOptions = {
+  apiKey: string;
+  /** Point at a stand-in server instead of coda.io, e.g. for offline tests. */
+  baseUrl?: string;
+  retryStats?: RetryStats;
+};
+
+export class CodaApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "CodaApiError";
+  }
+}
+
+/** Rate limits, server errors and dropped connections are worth retrying. */
+function isTransientCodaError(error: unknown): boolean {
+  if (error instanceof CodaApiError) return isRetryableStatus(error.status);
+  // fetch() rejects with a TypeError when the connection fails.
+  return error instanceof TypeError;
+}
+
+async function fetchCodaJson<T>(
+  url: string,
+  { apiKey, retryStats }: CodaApiOptions,
+  label: string,
+): Promise<T> {
+  return await withRetry(
+    async () => {
+      const response = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new CodaApiError(
+          `Failed to fetch ${label} from Coda: ${response.status} ${errorText}`.trim(),
+          response.status,
+          parseRetryAfter(response.headers.get("Retry-After")),
+        );
+      }
+      return (await response.json()) as T;
+    },
+    { isRetryable: isTransientCodaError, stats: retryStats },
+  );
+}
+
+async function fetchAllPages<T>(
+  url: string,
+  options: CodaApiOptions,
+  label: string,
+): Promise<T[]> {
+  const items: T[] = [];
+  let pageToken: string | undefined;
+  do {
+    const pageUrl = new URL(url);
+    if (pageToken) pageUrl.searchParams.set("pageToken", pageToken);
+    const page = await fetchCodaJson<CodaPage<T>>(pageUrl.href, options, label);
+    items.push(...page.items);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return items;
+}
+
+function tableUrl(
+  docId: string,
+  tableIdOrName: string,
+  baseUrl = CODA_API_BASE_URL,
+): string {
+  return `${baseUrl.replace(/\/+$/, "")}/docs/${encodeURIComponent(docId)}/tables/${encodeURIComponent(tableIdOrName)}`;
+}
+
+export async function fetchCodaTableInfo(
+  docId: string,
+  tableIdOrName: string,
+  options: CodaApiOptions,
+): Promise<{ id: string; name: string }> {
+  return await fetchCodaJson<{ id: string; name: string }>(
+    tableUrl(docId, tableIdOrName, options.baseUrl),
+    options,
+    "table metadata",
+  );
+}
+
+/** Columns tagged with their table, so pushes record it on the collection. */
+export async function fetchCodaColumns(
+  docId: string,
+  tableId: string,
+  options: CodaApiOptions,
+): Promise<CodaColumnInput[]> {
+  const columns = await fetchAllPages<CodaColumnInput>(
+    `${tableUrl(docId, tableId, options.baseUrl)}/columns`,
+    options,
+    "columns",
+  );
+  return columns.map((column) => ({ ...column, parent: { id: tableId } }));
+}
+
+/**
+ * Read specific rows by id. Rows that no longer exist are left out, so callers
+ * can treat them as deleted.
+ */
+export async function fetchCodaRows(
+  docId: string,
+  tableId: string,
+  rowIds: readonly string[],
+  options: CodaApiOptions,
+): Promise<NormalizedRow[]> {
+  const rows: NormalizedRow[] = [];
+  for (const rowId of rowIds) {
+    const url = `${tableUrl(docId, tableId, options.baseUrl)}/rows/${encodeURIComponent(rowId)}?useRichText=true&valueFormat=rich`;
+    try {
+      const row = await fetchCodaJson<{ id: string; values: Record<string, unknown> }>(
+        url,
+        options,
+        "row",
+      );
+      rows.push({ id: row.id, values: row.values ?? {} });
+    } catch (error) {
+      if (error instanceof CodaApiError && error.status === 404) continue;
+      throw error;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Read a table's columns and rows from the Coda REST API in the shape the
+ * mapping code expects. Rows use rich values, as the Framer plugin reads them.
+ */
+export async function fetchCodaTable(
+  docId: string,
+  tableIdOrName: string,
+  options: CodaApiOptions,
+): Promise<CodaTableData> {
+  const table = await fetchCodaTableInfo(docId, tableIdOrName, options);
+  const columns = await fetchCodaColumns(docId, table.id, options);
+  const rows = await fetchAllPages<{ id: string; values: Record<string, unknown> }>(
+    `${tableUrl(docId, table.id, options.baseUrl)}/rows?useRichText=true&valueFormat=rich`,
+    options,
+    "rows",
+  );
+
+  return {
+    tableId: table.id,
+    tableName: table.name,
+    columns,
+    rows: rows.map((row) => ({ id: row.id, values: row.values ?? {} })),
+  };
+}
@@ -0,0 +1,128 @@
+import * as coda from "@codahq/packs-sdk";
+import type {
+  CollectionItem,
+  FieldDataEntry,
+  ManagedCollectionField,
+} from "framer-api";
+
+export const CollectionItemBaseSchema = coda.makeObjectSchema({
+  properties: {
+    id: {
+      type: coda.ValueType.String,
+      description: "Item id (the Coda row id for rows pushed by this Pack).",
+    },
+    slug: { type: coda.ValueType.String, description: "Item slug." },
+    draft: {
+      type: coda.ValueType.Boolean,
+      description: "Whether the item is excluded from publishing.",
+    },
+  },
+  displayProperty: "slug",
+  idProperty: "id",
+  featuredProperties: ["id", "slug", "draft"],
+});
+
+function fieldPropertySchema(
+  field: ManagedCollectionField,
+): coda.Schema | null {
+  switch (field.type) {
+    case "string":
+    case "color":
+    case "enum":
+    case "collectionReference":
+      return { type: coda.ValueType.String };
+    case "number":
+      return { type: coda.ValueType.Number };
+    case "boolean":
+      return { type: coda.ValueType.Boolean };
+    case "date":
+      return { type: coda.ValueType.String, codaType: coda.ValueHintType.DateTime };
+    case "formattedText":
+      return { type: coda.ValueType.String, codaType: coda.ValueHintType.Html };
+    case "link":
+    case "file":
+      return { type: coda.ValueType.String, codaType: coda.ValueHintType.Url };
+    case "image":
+      return {
+        type: coda.ValueType.String,
+        codaType: coda.ValueHintType.ImageReference,
+      };
+    case "multiCollectionReference":
+      return {
+        type: coda.ValueType.Array,
+        items: { type: coda.ValueType.String },
+      };
+    case "array":
+      return {
+        type: coda.ValueType.Array,
+        items: {
+          type: coda.ValueType.String,
+          codaType: coda.ValueHintType.ImageReference,
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+export function buildCollectionItemSchema(
+  fields: readonly ManagedCollectionField[],
+) {
+  const properties: coda.ObjectSchemaProperties = {
+    ...CollectionItemBaseSchema.properties,
+  };
+  for (const field of fields) {
+    const property = fieldPropertySchema(field);
+    if (!property || field.id in properties) continue;
+    properties[field.id] = {
+      ...property,
+      displayName: field.name,
+      description: `Framer ${field.type} field.`,
+    } as coda.Schema & coda.ObjectSchemaProperty;
+  }
+  return coda.makeObjectSchema({
+    ...CollectionItemBaseSchema,
+    properties,
+  });
+}
+
+function toCodaValue(
+  entry: FieldDataEntry,
+  field: ManagedCollectionField,
+): unknown {
+  switch (entry.type) {
+    case "image":
+    case "file":
+      return entry.value?.url ?? "";
+    case "enum": {
+      const cases = "cases" in field && Array.isArray(field.cases) ? field.cases : [];
+      return cases.find((item) => item.id === entry.value)?.name ?? entry.value ?? "";
+    }
+    case "multiCollectionReference":
+      return [...entry.value];
+    case "array":
+      return entry.value
+        .flatMap((item) => Object.values(item.fieldData))
+        .map((value) => value.value?.url)
+        .filter((url): url is string => Boolean(url));
+    default:
+      return entry.value ?? null;
+  }
+}
+
+export function collectionItemToRow(
+  item: CollectionItem,
+  fields: readonly ManagedCollectionField[],
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {
+    id: item.id,
+    slug: item.slug,
+    draft: item.draft,
+  };
+  for (const field of fields) {
+    const entry = item.fieldData[field.id];
+    if (!entry || !fieldPropertySchema(field)) continue;
+    row[field.id] = toCodaValue(entry, field);
+  }
+  return row;
+}
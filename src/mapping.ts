@@ -31,6 +31,8 @@ export type CodaColumnInput = {
   name: string;
   display?: boolean;
   format: CodaColumnFormat;
+  /** The table the column belongs to, as returned by the Coda API. */
+  parent?: { id?: string };
 };
 
 export type ReferenceMapEntry = {
@@ -43,13 +45,121 @@ export type NormalizedRow = {
   values: Record<string, unknown>;
 };
 
-type MappingResult = {
+export type MappingResult = {
   fields: ManagedCollectionFieldInput[];
   items: ManagedCollectionItemInput[];
   warnings: string[];
   skippedCount: number;
+  /** Rows that produced no item, in payload order. */
+  skippedRows: SkippedRow[];
+  /** The subset of `warnings` about each row, keyed by row id. */
+  rowWarnings: Record<string, string[]>;
+  /** Fields whose name comes from the mapping config rather than Framer. */
+  renamedFieldIds: string[];
+  /** References left out because they matched no item in the target collection. */
+  referenceIssues: ReferenceIssue[];
 };
 
+export type SkippedRow = {
+  /** Position of the row in the payload. */
+  index: number;
+  /** Empty when the row had no id. */
+  rowId: string;
+  reason: string;
+};
+
+/** Items of a referenced collection, indexed the ways a Coda lookup can match them. */
+export type ReferenceTarget = {
+  itemIds: ReadonlySet<string>;
+  idsBySlug: ReadonlyMap<string, string>;
+  /** Item ids by key field value, keyed by field id. */
+  idsByFieldValue: ReadonlyMap<string, ReadonlyMap<string, string>>;
+};
+
+export type ReferenceIssue = {
+  rowId: string;
+  fieldId: string;
+  fieldName: string;
+  missingId: string;
+};
+
+type ReferenceCandidate = { id?: string; name?: string };
+
+type ReferenceResolver = {
+  target: ReferenceTarget;
+  keyFieldId?: string;
+  /** Row ids in the same payload, for lookups into the table being pushed. */
+  payloadRowIds?: ReadonlySet<string>;
+};
+
+const OVERRIDE_FIELD_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "link",
+  "image",
+  "file",
+  "formattedText",
+  "enum",
+] as const;
+
+export type OverrideFieldType = (typeof OVERRIDE_FIELD_TYPES)[number];
+
+/**
+ * Override types each Coda column format converts to without losing values.
+ * Formats not listed can only be forced to string; a column can always keep
+ * the type it maps to by default.
+ */
+const ALLOWED_OVERRIDE_TYPES: Record<string, readonly OverrideFieldType[]> = {
+  text: ["string", "formattedText", "link", "image", "file"],
+  email: ["string"],
+  phone: ["string"],
+  number: ["number", "string"],
+  currency: ["number", "string"],
+  percent: ["number", "string"],
+  duration: ["number", "string"],
+  slider: ["number", "string"],
+  scale: ["number", "string", "enum"],
+  select: ["enum", "string"],
+  checkbox: ["boolean", "string"],
+  date: ["date", "string"],
+  datetime: ["date", "string"],
+  time: ["date", "string"],
+  image: ["image", "link"],
+  file: ["file", "link"],
+  canvas: ["formattedText", "string"],
+  richtext: ["formattedText", "string"],
+  url: ["link", "string", "image", "file"],
+  link: ["link", "string", "image", "file"],
+  person: ["string"],
+  lookup: ["string", "enum"],
+  reference: ["string"],
+};
+
+/** Override types a column accepts. Multi-value columns only flatten to string. */
+function getAllowedOverrideTypes(column: CodaColumnInput): OverrideFieldType[] {
+  const defaultType = mapCodaTypeToFramerType(column)?.type;
+  const allowed = column.format.isArray
+    ? ["string"]
+    : (ALLOWED_OVERRIDE_TYPES[column.format.type.toLowerCase()] ?? ["string"]);
+  return OVERRIDE_FIELD_TYPES.filter(
+    (type) => type === defaultType || allowed.includes(type),
+  );
+}
+
+export type ColumnOverride = {
+  type?: OverrideFieldType;
+  name?: string;
+  fieldId?: string;
+  exclude?: boolean;
+  /** For lookups: field in the referenced collection that holds the row's display value. */
+  keyFieldId?: string;
+};
+
+/** Per-column overrides, keyed by Coda column id. */
+export type MappingConfig = Record<string, ColumnOverride>;
+
 type ValueWrapper = {
   rawValue?: unknown;
   value?: unknown;
@@ -202,9 +312,24 @@ export function normalizeColumns(columns: CodaColumnInput[]): CodaColumnInput[]
     name: String(column.name ?? column.id),
     format: column.format ?? { type: "text" },
     display: column.display,
+    parent: column.parent,
   }));
 }
 
+/** The Coda table the columns were read from, when the payload says so. */
+export function getSourceTableId(columns: readonly CodaColumnInput[]): string | undefined {
+  return columns.find((column) => column.parent?.id)?.parent?.id;
+}
+
+/** Coda table ids referenced by lookup columns. */
+export function getLookupTableIds(columns: readonly CodaColumnInput[]): string[] {
+  const tableIds = columns
+    .filter((column) => column.format.type.toLowerCase() === "lookup")
+    .map((column) => column.format.table?.id)
+    .filter((tableId): tableId is string => Boolean(tableId));
+  return [...new Set(tableIds)];
+}
+
 export function normalizeRows(rows: unknown[]): NormalizedRow[] {
   return rows.map((row) => {
     if (!row || typeof row !== "object") {
@@ -230,6 +355,210 @@ export function buildReferenceMap(entries?: ReferenceMapEntry[]): Map<string, st
   return map;
 }
 
+function getEnumChoices(column: CodaColumnInput) {
+  const baseType = column.format.type.toLowerCase();
+  if (baseType !== "select" && baseType !== "scale") return undefined;
+  return Array.isArray(column.format.options)
+    ? column.format.options
+    : column.format.options?.choices;
+}
+
+function isSingleLookup(column: CodaColumnInput): boolean {
+  return column.format.type.toLowerCase() === "lookup" && !column.format.isArray;
+}
+
+/**
+ * Check a parsed mapping config against the payload's columns. Returns the
+ * config together with one message per problem; callers must not apply a
+ * config that has errors.
+ */
+export function parseMappingConfig(
+  value: unknown,
+  columns: readonly CodaColumnInput[],
+): { config: MappingConfig; errors: string[] } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {
+      config: {},
+      errors: ["Mapping must be a JSON object keyed by Coda column id."],
+    };
+  }
+  const columnMap = new Map(columns.map((column) => [column.id, column]));
+  const config = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const [columnId, rawOverride] of Object.entries(config)) {
+    const column = columnMap.get(columnId);
+    if (!column) {
+      errors.push(`Column "${columnId}" is not in the columns payload.`);
+      continue;
+    }
+    if (!rawOverride || typeof rawOverride !== "object" || Array.isArray(rawOverride)) {
+      errors.push(`Column "${column.name}": the override must be an object.`);
+      continue;
+    }
+    const override = rawOverride as Record<string, unknown>;
+    const unknownKeys = Object.keys(override).filter(
+      (key) => !["type", "name", "fieldId", "exclude", "keyFieldId"].includes(key),
+    );
+    if (unknownKeys.length > 0) {
+      errors.push(
+        `Column "${column.name}": unknown option(s) ${unknownKeys.join(", ")}.`,
+      );
+    }
+    if (override.exclude !== undefined && typeof override.exclude !== "boolean") {
+      errors.push(`Column "${column.name}": exclude must be true or false.`);
+    }
+    if (
+      override.exclude === true &&
+      (override.type !== undefined ||
+        override.name !== undefined ||
+        override.fieldId !== undefined ||
+        override.keyFieldId !== undefined)
+    ) {
+      errors.push(
+        `Column "${column.name}": an excluded column cannot also set type, name, fieldId or keyFieldId.`,
+      );
+      continue;
+    }
+    for (const key of ["name", "fieldId", "keyFieldId"] as const) {
+      const option = override[key];
+      if (option !== undefined && (typeof option !== "string" || !option.trim())) {
+        errors.push(`Column "${column.name}": ${key} must be a non-empty string.`);
+      }
+    }
+    if (
+      override.keyFieldId !== undefined &&
+      column.format.type.toLowerCase() !== "lookup"
+    ) {
+      errors.push(`Column "${column.name}": keyFieldId only applies to lookup columns.`);
+    }
+    if (override.type === undefined) continue;
+    if (!OVERRIDE_FIELD_TYPES.includes(override.type as OverrideFieldType)) {
+      errors.push(
+        `Column "${column.name}": type "${String(override.type)}" is not supported. Use one of ${OVERRIDE_FIELD_TYPES.join(", ")}.`,
+      );
+    } else if (column.format.type.toLowerCase() === "button") {
+      errors.push(`Column "${column.name}": button columns cannot be mapped.`);
+    } else if (
+      !getAllowedOverrideTypes(column).includes(override.type as OverrideFieldType)
+    ) {
+      errors.push(
+        `Column "${column.name}": a ${column.format.isArray ? "multi-value " : ""}${column.format.type} column cannot be mapped to ${String(override.type)} without losing values. Use one of ${getAllowedOverrideTypes(column).join(", ")}.`,
+      );
+    } else if (
+      override.type === "enum" &&
+      !getEnumChoices(column) &&
+      !isSingleLookup(column)
+    ) {
+      errors.push(
+        `Column "${column.name}": enum needs a select or scale column with options, or a single-value lookup.`,
+      );
+    }
+  }
+
+  const fieldIdOwners = new Map<string, string>();
+  for (const column of columns) {
+    const override = config[column.id] as ColumnOverride | undefined;
+    if (override?.exclude === true) continue;
+    const fieldId = override?.fieldId ?? column.id;
+    const owner = fieldIdOwners.get(fieldId);
+    if (owner !== undefined) {
+      errors.push(
+        `Field id "${fieldId}" is used by both "${owner}" and "${column.name}".`,
+      );
+    } else {
+      fieldIdOwners.set(fieldId, column.name);
+    }
+  }
+
+  return { config: config as MappingConfig, errors };
+}
+
+function buildOverrideField(
+  column: CodaColumnInput,
+  type: OverrideFieldType,
+): ManagedCollectionFieldInput {
+  switch (type) {
+    case "enum":
+      return {
+        id: column.id,
+        name: column.name,
+        type: "enum",
+        cases: (getEnumChoices(column) ?? []).map((choice, index) => ({
+          id: choice.id || choice.name || `choice-${index}`,
+          name: choice.name,
+        })),
+      };
+    case "file":
+      return {
+        id: column.id,
+        name: column.name,
+        type: "file",
+        allowedFileTypes: ["*"],
+      };
+    default:
+      return { id: column.id, name: column.name, type };
+  }
+}
+
+/**
+ * Order tables so each comes after the tables its lookups point at. Tables
+ * that cannot be ordered because of a cycle keep their input order at the end
+ * and are also returned in `cyclic`. Tables without a source table id, or with
+ * lookup columns that name no table, are returned in `unlinked`: their place
+ * in the order is only a guess based on the input order.
+ */
+export function orderByLookupDependencies(
+  tables: ReadonlyArray<{ tableId?: string; columns: readonly CodaColumnInput[] }>,
+): { order: number[]; cyclic: number[]; unlinked: number[] } {
+  const indexByTableId = new Map<string, number>();
+  tables.forEach((table, index) => {
+    if (table.tableId) indexByTableId.set(table.tableId, index);
+  });
+  const dependencies = tables.map(
+    (table, index) =>
+      new Set(
+        getLookupTableIds(table.columns)
+          .map((tableId) => indexByTableId.get(tableId))
+          .filter(
+            (dependency): dependency is number =>
+              dependency !== undefined && dependency !== index,
+          ),
+      ),
+  );
+
+  const order: number[] = [];
+  const placed = new Set<number>();
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    dependencies.forEach((tableDependencies, index) => {
+      if (placed.has(index)) return;
+      if ([...tableDependencies].every((dependency) => placed.has(dependency))) {
+        order.push(index);
+        placed.add(index);
+        progressed = true;
+      }
+    });
+  }
+  const cyclic = tables.map((_, index) => index).filter((index) => !placed.has(index));
+  const unlinked =
+    tables.length > 1
+      ? tables
+          .map((_, index) => index)
+          .filter(
+            (index) =>
+              !tables[index]!.tableId ||
+              tables[index]!.columns.some(
+                (column) =>
+                  column.format.type.toLowerCase() === "lookup" &&
+                  !column.format.table?.id,
+              ),
+          )
+      : [];
+  return { order: [...order, ...cyclic], cyclic, unlinked };
+}
+
 export function mapCodaTypeToFramerType(
   column: CodaColumnInput,
 ): ManagedCollectionFieldInput | null {
@@ -255,11 +584,9 @@ export function mapCodaTypeToFramerType(
     };
   }
 
-  const enumChoices = Array.isArray(column.format.options)
-    ? column.format.options
-    : column.format.options?.choices;
+  const enumChoices = getEnumChoices(column);
 
-  if ((baseType === "select" || baseType === "scale") && enumChoices) {
+  if (enumChoices) {
     return {
       id: column.id,
       name: column.name,
@@ -360,25 +687,248 @@ export function mapCodaTypeToFramerType(
   }
 }
 
+/**
+ * Make a slug URL-safe: accents are folded, letters are lowercased and any run
+ * of other characters becomes a single hyphen.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+const SLUG_TEMPLATE_PLACEHOLDER = /\{([^{}]+)\}/g;
+
+function findTemplateColumn(
+  columns: readonly CodaColumnInput[],
+  key: string,
+): CodaColumnInput | undefined {
+  const trimmed = key.trim();
+  return (
+    columns.find((column) => column.id === trimmed) ??
+    columns.find((column) => column.name.toLowerCase() === trimmed.toLowerCase())
+  );
+}
+
+/** Placeholders in a slug template that match no column id or name. */
+export function findUnknownTemplateColumns(
+  template: string,
+  columns: readonly CodaColumnInput[],
+): string[] {
+  return [...template.matchAll(SLUG_TEMPLATE_PLACEHOLDER)]
+    .map((match) => match[1] ?? "")
+    .filter((key) => !findTemplateColumn(columns, key));
+}
+
+/**
+ * Check the table options that name columns against the table's columns.
+ * Returns one message per problem; the pack and the CLI raise them as their
+ * own kind of error.
+ */
+export function checkTableOptions(
+  options: { publishedFieldId?: string; slugTemplate?: string },
+  columns: readonly CodaColumnInput[],
+): string[] {
+  const { publishedFieldId, slugTemplate } = options;
+  const errors: string[] = [];
+  if (publishedFieldId && !columns.some((column) => column.id === publishedFieldId)) {
+    errors.push(`Published column "${publishedFieldId}" is not one of the table's columns.`);
+  }
+  const unknown = slugTemplate ? findUnknownTemplateColumns(slugTemplate, columns) : [];
+  if (unknown.length > 0) {
+    errors.push(`Slug template refers to unknown column(s): ${unknown.join(", ")}.`);
+  }
+  return errors;
+}
+
+function renderSlugTemplate(
+  template: string,
+  row: NormalizedRow,
+  columns: readonly CodaColumnInput[],
+): string {
+  return template.replace(SLUG_TEMPLATE_PLACEHOLDER, (_match, key: string) => {
+    const column = findTemplateColumn(columns, key);
+    if (!column) return "";
+    const value = extractSlugValue(row.values[column.id]) ?? "";
+    const baseType = column.format.type.toLowerCase();
+    if ((baseType === "date" || baseType === "datetime") && value) {
+      const date = new Date(value);
+      if (!Number.isNaN(date.getTime())) return date.toISOString().slice(0, 10);
+    }
+    return value;
+  });
+}
+
+/** Record a warning against the row it concerns. */
+function addRowWarning(
+  rowWarnings: Record<string, string[]>,
+  rowId: string,
+  warning: string,
+): void {
+  (rowWarnings[rowId] ??= []).push(warning);
+}
+
+/**
+ * Give every item a unique slug. Every natural slug is reserved first, by the
+ * first item in row order that has it, so an automatic suffix never takes
+ * another row's own slug. An item whose slug is already used by an earlier
+ * item, or by a different item in `takenSlugs` (slug to item id), then gets
+ * the first free "-2", "-3"... suffix. Returns one warning per renamed item.
+ */
+export function resolveSlugCollisions(
+  items: ManagedCollectionItemInput[],
+  takenSlugs: ReadonlyMap<string, string> = new Map(),
+  rowWarnings?: Record<string, string[]>,
+): string[] {
+  const owners = new Map(takenSlugs);
+  for (const item of items) {
+    if (!owners.has(item.slug)) owners.set(item.slug, item.id);
+  }
+  const warnings: string[] = [];
+  for (const item of items) {
+    const owner = owners.get(item.slug)!;
+    if (owner === item.id) continue;
+    let suffix = 2;
+    while (owners.has(`${item.slug}-${suffix}`)) suffix += 1;
+    const slug = `${item.slug}-${suffix}`;
+    const warning = `Slug "${item.slug}" is already used by item ${owner}; row ${item.id} was given "${slug}".`;
+    warnings.push(warning);
+    if (rowWarnings) addRowWarning(rowWarnings, item.id, warning);
+    item.slug = slug;
+    owners.set(slug, item.id);
+  }
+  return warnings;
+}
+
+/**
+ * Collections referenced by lookup columns, each with the key fields the
+ * mapping config asks to match on.
+ */
+export function getReferenceKeyFields(
+  columns: readonly CodaColumnInput[],
+  referenceMap: ReadonlyMap<string, string>,
+  mapping?: MappingConfig,
+): Map<string, string[]> {
+  const keyFields = new Map<string, string[]>();
+  for (const column of columns) {
+    const tableId = column.format.table?.id;
+    const collectionId = tableId ? referenceMap.get(tableId) : undefined;
+    if (column.format.type.toLowerCase() !== "lookup" || !collectionId) continue;
+    const fieldIds = keyFields.get(collectionId) ?? [];
+    const keyFieldId = mapping?.[column.id]?.keyFieldId;
+    if (keyFieldId && !fieldIds.includes(keyFieldId)) fieldIds.push(keyFieldId);
+    keyFields.set(collectionId, fieldIds);
+  }
+  return keyFields;
+}
+
+function extractReferenceCandidates(value: unknown): ReferenceCandidate[] {
+  if (Array.isArray(value)) return value.flatMap(extractReferenceCandidates);
+  if (typeof value === "string") {
+    return value.trim() ? [{ id: value.trim(), name: value.trim() }] : [];
+  }
+  if (typeof value === "object" && value !== null) {
+    const obj = value as Record<string, unknown>;
+    const id = [obj.rowId, obj.id, obj["@id"]].find(
+      (item): item is string => typeof item === "string",
+    );
+    const name = typeof obj.name === "string" ? obj.name : undefined;
+    return id || name ? [{ id, name }] : [];
+  }
+  return [];
+}
+
+/** Match by item id first, then by the configured key field, then by slug. */
+function matchReference(
+  candidate: ReferenceCandidate,
+  resolver: ReferenceResolver,
+): string | null {
+  const { target, keyFieldId, payloadRowIds } = resolver;
+  if (
+    candidate.id &&
+    (target.itemIds.has(candidate.id) || payloadRowIds?.has(candidate.id))
+  ) {
+    return candidate.id;
+  }
+  if (!candidate.name) return null;
+  const byKey = keyFieldId
+    ? target.idsByFieldValue.get(keyFieldId)?.get(candidate.name)
+    : undefined;
+  return (
+    byKey ??
+    target.idsBySlug.get(slugify(candidate.name)) ??
+    target.idsBySlug.get(candidate.name) ??
+    null
+  );
+}
+
+const PUBLISHED_VALUES = new Set(["true", "yes", "published", "live", "public"]);
+
+/**
+ * Whether a value from the published column makes an item live: a checked
+ * checkbox, or a select or text value such as "Published", "Live" or "Yes".
+ */
+export function isPublishedValue(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (value === null || value === undefined) return false;
+  const text = Array.isArray(value)
+    ? value.map(extractMeaningfulText).join(",")
+    : extractMeaningfulText(value);
+  return PUBLISHED_VALUES.has(stripMarkdown(text).toLowerCase());
+}
+
 export function buildFieldsAndItems(options: {
   columns: CodaColumnInput[];
   rows: NormalizedRow[];
   slugFieldId: string;
   referenceMap: Map<string, string>;
   use12HourTime?: boolean;
+  mapping?: MappingConfig;
+  /** Coda column id whose value decides each item's draft state. */
+  publishedFieldId?: string;
+  /** Builds the slug from column values, e.g. "{Title}-{Date}", instead of `slugFieldId`. */
+  slugTemplate?: string;
+  /** Items of referenced collections, keyed by collection id. */
+  referenceTargets?: ReadonlyMap<string, ReferenceTarget>;
+  /** The Coda table being pushed, so lookups into it can match rows in the payload. */
+  sourceTableId?: string;
 }): MappingResult {
-  const { columns, rows, slugFieldId, referenceMap, use12HourTime } = options;
+  const {
+    columns,
+    rows,
+    slugFieldId,
+    referenceMap,
+    use12HourTime,
+    mapping,
+    publishedFieldId,
+    slugTemplate,
+    referenceTargets,
+    sourceTableId,
+  } = options;
   const warnings: string[] = [];
+  const referenceIssues: ReferenceIssue[] = [];
+  const renamedFieldIds: string[] = [];
+  const fieldColumnIds = new Map<string, string>();
 
   const fields = columns
     .map((column) => {
-      let mappedField = mapCodaTypeToFramerType(column);
+      const override = mapping?.[column.id];
+      if (override?.exclude) return null;
+
+      let mappedField = override?.type
+        ? buildOverrideField(column, override.type)
+        : mapCodaTypeToFramerType(column);
 
+      // Lookups become references when their table has a collection; otherwise
+      // multi-value lookups stay strings and single ones fall back to enums.
       if (
         mappedField &&
-        mappedField.type === "string" &&
+        !override?.type &&
         column.format.type.toLowerCase() === "lookup" &&
-        column.format.isArray
+        mappedField.type === (column.format.isArray ? "string" : "enum")
       ) {
         const refId = column.format.table?.id;
         const linkedCollectionId = refId ? referenceMap.get(refId) : undefined;
@@ -386,16 +936,28 @@ export function buildFieldsAndItems(options: {
           mappedField = {
             id: column.id,
             name: column.name,
-            type: "multiCollectionReference",
+            type: column.format.isArray
+              ? "multiCollectionReference"
+              : "collectionReference",
             collectionId: linkedCollectionId,
           };
         } else if (refId) {
           warnings.push(
-            `No Framer collection mapping found for lookup field "${column.name}" (Coda table ${refId}).`,
+            `No Framer collection mapping found for lookup field "${column.name}" (Coda table ${refId}). Push that table first or add it to referenceMapJson.`,
           );
         }
       }
 
+      if (mappedField) {
+        mappedField = {
+          ...mappedField,
+          id: override?.fieldId ?? mappedField.id,
+          name: override?.name ?? mappedField.name,
+        };
+        fieldColumnIds.set(mappedField.id, column.id);
+        if (override?.name) renamedFieldIds.push(mappedField.id);
+      }
+
       return mappedField;
     })
     .filter((field): field is ManagedCollectionFieldInput => field !== null);
@@ -403,7 +965,7 @@ export function buildFieldsAndItems(options: {
   const lookupFields = fields.filter((field) =>
     columns.find(
       (column) =>
-        column.id === field.id &&
+        column.id === fieldColumnIds.get(field.id) &&
         column.format.type.toLowerCase() === "lookup" &&
         field.type === "enum",
     ),
@@ -415,7 +977,7 @@ export function buildFieldsAndItems(options: {
 
     rows.forEach((row) => {
       lookupFields.forEach((field) => {
-        const value = row.values[field.id];
+        const value = row.values[fieldColumnIds.get(field.id) ?? field.id];
         if (!value) return;
         const values = extractLookupValues(value);
         const valueSet = lookupValueSets.get(field.id);
@@ -436,60 +998,137 @@ export function buildFieldsAndItems(options: {
     });
   }
 
-  const fieldMap = new Map(fields.map((field) => [field.id, field]));
   const codaColumnTypeMap = new Map(
     columns.map((column) => [column.id, column.format.type.toLowerCase()]),
   );
 
-  let skippedCount = 0;
+  const payloadRowIds = new Set(
+    rows.map((row) => row.id).filter((id): id is string => Boolean(id)),
+  );
+  const referenceResolvers = new Map<string, ReferenceResolver>();
+  for (const field of fields) {
+    if (field.type !== "collectionReference" && field.type !== "multiCollectionReference") {
+      continue;
+    }
+    const target = referenceTargets?.get(field.collectionId);
+    const column = columns.find((item) => item.id === fieldColumnIds.get(field.id));
+    if (!target || !column) continue;
+    referenceResolvers.set(field.id, {
+      target,
+      keyFieldId: mapping?.[column.id]?.keyFieldId,
+      payloadRowIds:
+        sourceTableId && column.format.table?.id === sourceTableId
+          ? payloadRowIds
+          : undefined,
+    });
+  }
+
+  const skippedRows: SkippedRow[] = [];
+  const rowWarnings: Record<string, string[]> = {};
   const items: ManagedCollectionItemInput[] = [];
 
   rows.forEach((row, index) => {
     const rowId = row.id;
     if (!rowId) {
-      skippedCount += 1;
-      warnings.push(`Row at index ${index} is missing a row id and was skipped.`);
+      const reason = `Row at index ${index} is missing a row id and was skipped.`;
+      skippedRows.push({ index, rowId: "", reason });
+      warnings.push(reason);
       return;
     }
 
-    const slugValue = extractSlugValue(row.values[slugFieldId]);
+    const slugValue = slugify(
+      slugTemplate
+        ? renderSlugTemplate(slugTemplate, row, columns)
+        : extractSlugValue(row.values[slugFieldId]) ?? "",
+    );
     if (!slugValue) {
-      skippedCount += 1;
-      warnings.push(`Row ${rowId} is missing a slug value and was skipped.`);
+      const reason = `Row ${rowId} is missing a slug value and was skipped.`;
+      skippedRows.push({ index, rowId, reason });
+      warnings.push(reason);
       return;
     }
 
     const fieldData: Record<string, FieldDataEntryInput> = {};
-    for (const [fieldId, value] of Object.entries(row.values)) {
-      const field = fieldMap.get(fieldId);
-      if (!field) continue;
-      const codaType = codaColumnTypeMap.get(fieldId) || "text";
-      const transformed = transformCodaValue(value, field, codaType, use12HourTime);
+    for (const field of fields) {
+      const columnId = fieldColumnIds.get(field.id) ?? field.id;
+      if (!(columnId in row.values)) continue;
+      const resolver = referenceResolvers.get(field.id);
+      if (resolver) {
+        const itemIds: string[] = [];
+        for (const candidate of extractReferenceCandidates(row.values[columnId])) {
+          const itemId = matchReference(candidate, resolver);
+          if (itemId) {
+            if (!itemIds.includes(itemId)) itemIds.push(itemId);
+            continue;
+          }
+          const missingId = candidate.id ?? candidate.name ?? "";
+          const label =
+            candidate.name && candidate.name !== missingId
+              ? `"${candidate.name}" (${missingId})`
+              : `"${missingId}"`;
+          referenceIssues.push({
+            rowId,
+            fieldId: field.id,
+            fieldName: field.name,
+            missingId,
+          });
+          const warning = `Row ${rowId}: "${field.name}" reference ${label} matched no item in the referenced collection and was left out.`;
+          warnings.push(warning);
+          addRowWarning(rowWarnings, rowId, warning);
+        }
+        fieldData[field.id] =
+          field.type === "collectionReference"
+            ? { type: "collectionReference", value: itemIds[0] ?? "" }
+            : { type: "multiCollectionReference", value: itemIds };
+        continue;
+      }
+      const codaType = codaColumnTypeMap.get(columnId) || "text";
+      const transformed = transformCodaValue(
+        row.values[columnId],
+        field,
+        codaType,
+        use12HourTime,
+      );
       if (transformed !== null) {
-        fieldData[fieldId] = transformed;
+        fieldData[field.id] = transformed;
       }
     }
 
     items.push({
       id: rowId,
       slug: slugValue,
-      draft: false,
+      draft: publishedFieldId
+        ? !isPublishedValue(row.values[publishedFieldId])
+        : false,
       fieldData,
     });
   });
 
-  return { fields, items, warnings, skippedCount };
+  warnings.push(...resolveSlugCollisions(items, undefined, rowWarnings));
+
+  return {
+    fields,
+    items,
+    warnings,
+    skippedCount: skippedRows.length,
+    skippedRows,
+    rowWarnings,
+    renamedFieldIds,
+    referenceIssues,
+  };
 }
 
 export function mergeFieldsWithExistingFields(
   sourceFields: readonly ManagedCollectionFieldInput[],
   existingFields: readonly ManagedCollectionFieldInput[],
+  renamedFieldIds: readonly string[] = [],
 ): ManagedCollectionFieldInput[] {
   const existingFieldMap = new Map(existingFields.map((field) => [field.id, field]));
+  const renamed = new Set(renamedFieldIds);
 
   return sourceFields.map((sourceField) => {
     const existingField = existingFieldMap.get(sourceField.id);
-    if (existingField) {
+    if (existingField && !renamed.has(sourceField.id)) {
       return {
         ...sourceField,
         name: existingField.name,
@@ -499,6 +1138,166 @@ export function mergeFieldsWithExistingFields(
   });
 }
 
+export function filterCompatibleFields(
+  fields: readonly ManagedCollectionFieldInput[],
+): ManagedCollectionFieldInput[] {
+  return fields.filter(
+    (field) =>
+      (field.type !== "collectionReference" &&
+        field.type !== "multiCollectionReference") ||
+      ("collectionId" in field && typeof field.collectionId === "string"),
+  );
+}
+
+export type FieldChanges = {
+  added: string[];
+  retyped: string[];
+  removed: string[];
+};
+
+type FieldSummary = { id: string; name: string; type: string };
+
+export function diffFields(
+  nextFields: readonly FieldSummary[],
+  existingFields: readonly FieldSummary[],
+): FieldChanges {
+  const existingFieldMap = new Map(existingFields.map((field) => [field.id, field]));
+  const nextIds = new Set(nextFields.map((field) => field.id));
+  const changes: FieldChanges = { added: [], retyped: [], removed: [] };
+
+  for (const field of nextFields) {
+    const existingField = existingFieldMap.get(field.id);
+    if (!existingField) {
+      changes.added.push(`${field.name} (${field.type})`);
+    } else if (existingField.type !== field.type) {
+      changes.retyped.push(
+        `${field.name} (${existingField.type} → ${field.type})`,
+      );
+    }
+  }
+  for (const field of existingFields) {
+    if (!nextIds.has(field.id)) {
+      changes.removed.push(`${field.name} (${field.type})`);
+    }
+  }
+  return changes;
+}
+
+export type ItemChange = "created" | "updated" | "unchanged";
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function hashItemInput(item: ManagedCollectionItemInput): string {
+  return hashText(
+    stableStringify({
+      slug: item.slug,
+      draft: item.draft ?? false,
+      fieldData: item.fieldData,
+    }),
+  );
+}
+
+/** Reduce assets and nested items read from Framer to plain, comparable data. */
+function comparableValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(comparableValue);
+  if (!value || typeof value !== "object") return value;
+  const record = value as Record<string, unknown>;
+  if ("fieldData" in record) {
+    return { id: record.id, fieldData: comparableFieldData(record.fieldData) };
+  }
+  if (typeof record.url === "string") {
+    return { url: record.url, alt: record.altText };
+  }
+  if (typeof record.id === "string") return record.id;
+  return record;
+}
+
+function comparableFieldData(fieldData: unknown): Record<string, unknown> {
+  const comparable: Record<string, unknown> = {};
+  for (const [fieldId, entry] of Object.entries(
+    (fieldData ?? {}) as Record<string, { value?: unknown }>,
+  )) {
+    comparable[fieldId] = comparableValue(entry?.value);
+  }
+  return comparable;
+}
+
+/**
+ * Fingerprint an item as Framer holds it. Framer rehosts images and files, so
+ * this cannot be compared with `hashItemInput`; instead it is recorded after a
+ * push and compared on the next one to catch edits made outside the pack.
+ */
+export function fingerprintCollectionItem(item: {
+  slug: string;
+  draft: boolean;
+  fieldData: Readonly<Record<string, unknown>>;
+}): string {
+  return hashText(
+    stableStringify({
+      slug: item.slug,
+      draft: item.draft,
+      fieldData: comparableFieldData(item.fieldData),
+    }),
+  );
+}
+
+export function diffItems(
+  items: readonly ManagedCollectionItemInput[],
+  existingIds: readonly string[],
+  existingHashes: Readonly<Record<string, string>>,
+): Map<string, ItemChange> {
+  const existing = new Set(existingIds);
+  const changes = new Map<string, ItemChange>();
+  for (const item of items) {
+    if (!existing.has(item.id)) {
+      changes.set(item.id, "created");
+    } else if (existingHashes[item.id] === hashItemInput(item)) {
+      changes.set(item.id, "unchanged");
+    } else {
+      changes.set(item.id, "updated");
+    }
+  }
+  return changes;
+}
+
+export function countItemChanges(
+  changes: ReadonlyMap<string, ItemChange>,
+  ids: Iterable<string> = changes.keys(),
+): Record<ItemChange, number> {
+  const counts: Record<ItemChange, number> = {
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+  };
+  for (const id of ids) {
+    const change = changes.get(id);
+    if (change) counts[change] += 1;
+  }
+  return counts;
+}
+
 function extractLookupValues(value: unknown): string[] {
   const results: string[] = [];
   if (Array.isArray(value)) {
@@ -855,9 +1654,13 @@ function transformCodaValue(
 }
 
 function extractReferenceId(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    return value.map(extractReferenceId).find((id) => id !== null) ?? null;
+  }
   if (typeof value === "string") return value;
   if (typeof value === "object" && value !== null) {
     const obj = value as Record<string, unknown>;
+    if (typeof obj.rowId === "string") return obj.rowId;
     if (typeof obj.id === "string") return obj.id;
     if (typeof obj["@id"] === "string") return obj["@id"] as string;
   }
@@ -1,17 +1,66 @@
 import * as coda from "@codahq/packs-sdk";
-import { connect, type ManagedCollectionFieldInput } from "framer-api";
+import {
+  buildCollectionItemSchema,
+  CollectionItemBaseSchema,
+  collectionItemToRow,
+} from "./collection-items";
 import {
   buildFieldsAndItems,
   buildReferenceMap,
-  mergeFieldsWithExistingFields,
+  diffFields,
+  filterCompatibleFields,
   normalizeColumns,
+  checkTableOptions,
+  getLookupTableIds,
+  getReferenceKeyFields,
+  getSourceTableId,
   normalizeRows,
+  orderByLookupDependencies,
+  parseMappingConfig,
   type CodaColumnInput,
+  type MappingConfig,
   type ReferenceMapEntry,
 } from "./mapping";
+import {
+  assertReferencesResolved,
+  buildRowResults,
+  decodeTablesToken,
+  encodeTablesToken,
+  loadRowUrlBase,
+  pushRows,
+  pushTable,
+} from "./push";
+import {
+  buildItemUrl,
+  deployDeployment,
+  discoverReferenceMap,
+  encodeContinuationToken,
+  getCollectionHandleById,
+  getCollectionItems,
+  clearCollection,
+  getPendingChanges,
+  listDeployments,
+  loadItemUrlBase,
+  loadReferenceTargets,
+  openSession,
+  removeItemsByIdOrSlug,
+  requireCollectionHandle,
+  saveCodaTableId,
+  saveItemHashes,
+  selectPreviewHostname,
+  setCollectionFields,
+  withSessionRetry,
+  writeItemsInBatches,
+  getRetryCount,
+  HASH_SAVE_RESERVE_MS,
+} from "./session";
 
 export const pack = coda.newPack();
 
+// Stop starting new item batches after this long so a push can hand back a
+// continuation token before Coda's execution time limit cuts it off.
+const PUSH_TIME_BUDGET_MS = 40_000;
+
 pack.addNetworkDomain("framer.com");
 pack.addNetworkDomain("coda.io");
 
@@ -55,82 +104,104 @@ function parseJsonArray<T>(raw: string, label: string): T[] {
   return value as T[];
 }
 
-async function getOrCreateManagedCollection(
-  projectUrl: string,
-  apiKey: string,
-  collectionName: string,
-): Promise<{ collectionId: string; collectionName: string; created: boolean }> {
-  using framer = await connect(projectUrl, apiKey);
-  const collections = await framer.getManagedCollections();
-  const existing = collections.find((item) => item.name === collectionName);
-  if (existing) {
-    return {
-      collectionId: existing.id,
-      collectionName: existing.name,
-      created: false,
-    };
+function parseMappingParam(
+  raw: string | undefined,
+  columns: CodaColumnInput[],
+): MappingConfig | undefined {
+  if (!raw) return undefined;
+  const { config, errors } = parseMappingConfig(
+    parseJsonParam<unknown>(raw, "mapping"),
+    columns,
+  );
+  if (errors.length > 0) {
+    throw new coda.UserVisibleError(`Invalid mapping: ${errors.join(" ")}`);
+  }
+  return config;
+}
+
+function requireTableOptions(
+  options: { publishedFieldId?: string; slugTemplate?: string },
+  columns: CodaColumnInput[],
+): { publishedColumnId?: string; slugTemplate?: string } {
+  const errors = checkTableOptions(options, columns);
+  if (errors.length > 0) {
+    throw new coda.UserVisibleError(errors.join(" "));
   }
-  const created = await framer.createManagedCollection(collectionName);
   return {
-    collectionId: created.id,
-    collectionName: created.name,
-    created: true,
+    publishedColumnId: options.publishedFieldId || undefined,
+    slugTemplate: options.slugTemplate || undefined,
   };
 }
 
-async function setCollectionFields(
-  projectUrl: string,
-  apiKey: string,
-  collectionId: string,
-  fields: ManagedCollectionFieldInput[],
-): Promise<number> {
-  using framer = await connect(projectUrl, apiKey);
-  const collections = await framer.getManagedCollections();
-  const collection = collections.find((item) => item.id === collectionId);
-  if (!collection) {
-    throw new coda.UserVisibleError("Managed collection not found.");
-  }
+async function listCollectionOptions(
+  context: coda.ExecutionContext,
+  args: Record<string, unknown> | undefined,
+): Promise<Array<{ id: string; name: string }>> {
+  const projectUrl = typeof args?.projectUrl === "string" ? args.projectUrl : "";
+  if (!projectUrl) return [];
+  using framer = await openSession(projectUrl, getApiKey(context));
+  const collections = await withSessionRetry(framer, () =>
+    framer.getManagedCollections(),
+  );
+  return collections.map((collection) => ({
+    id: collection.id,
+    name: collection.name,
+  }));
+}
 
-  const compatibleFields = fields
-    .map((field) => {
-      if (
-        field.type === "multiCollectionReference" &&
-        (!("collectionId" in field) || typeof field.collectionId !== "string")
-      ) {
-        return null;
-      }
-      return field;
-    })
-    .filter((field): field is typeof fields[number] => Boolean(field));
+async function autocompleteCollectionName(
+  context: coda.ExecutionContext,
+  search: string,
+  args?: Record<string, unknown>,
+) {
+  const collections = await listCollectionOptions(context, args);
+  return coda.autocompleteSearchObjects(search, collections, "name", "name");
+}
 
-  await collection.setFields(compatibleFields);
-  return compatibleFields.length;
+async function autocompleteCollectionId(
+  context: coda.ExecutionContext,
+  search: string,
+  args?: Record<string, unknown>,
+) {
+  const collections = await listCollectionOptions(context, args);
+  return coda.autocompleteSearchObjects(search, collections, "name", "id");
 }
 
-async function publishIfRequested(
-  projectUrl: string,
-  apiKey: string,
-  publish?: boolean,
-): Promise<{ published: boolean; deploymentId?: string; changeCount?: number } | null> {
-  if (!publish) return null;
-  using framer = await connect(projectUrl, apiKey);
-  const changedPaths = await framer.getChangedPaths();
-  const changeCount =
-    (changedPaths.added?.length ?? 0) +
-    (changedPaths.removed?.length ?? 0) +
-    (changedPaths.modified?.length ?? 0);
-  if (changeCount === 0) {
-    return { published: false, changeCount };
+async function autocompleteColumnId(
+  _context: coda.ExecutionContext,
+  search: string,
+  args?: Record<string, unknown>,
+) {
+  const columnsJson = typeof args?.columnsJson === "string" ? args.columnsJson : "";
+  if (!columnsJson) return [];
+  let columns: CodaColumnInput[];
+  try {
+    columns = normalizeColumns(
+      parseJsonArray<CodaColumnInput>(columnsJson, "columns"),
+    );
+  } catch {
+    return [];
   }
-  const publishResult = await framer.publish();
-  await framer.deploy(publishResult.deployment.id);
-  return {
-    published: true,
-    deploymentId: publishResult.deployment.id,
-    changeCount,
-  };
+  return coda.autocompleteSearchObjects(
+    search,
+    columns.map((column) => ({ id: column.id, name: String(column.name) })),
+    "name",
+    "id",
+  );
 }
 
+type TablePayload = {
+  collectionName?: string;
+  slugFieldId?: string;
+  columns?: CodaColumnInput[];
+  rows?: unknown[];
+  codaTableId?: string;
+  mapping?: unknown;
+  publishedFieldId?: string;
+  slugTemplate?: string;
+  pruneMissing?: boolean;
+};
+
 const ManagedCollectionSchema = coda.makeObjectSchema({
   properties: {
     id: { type: coda.ValueType.String, description: "Collection id." },
@@ -142,22 +213,188 @@ const ManagedCollectionSchema = coda.makeObjectSchema({
   featuredProperties: ["id", "name", "managedBy"],
 });
 
+const CollectionFieldSchema = coda.makeObjectSchema({
+  properties: {
+    id: { type: coda.ValueType.String, description: "Field id." },
+    name: { type: coda.ValueType.String, description: "Field name." },
+    type: { type: coda.ValueType.String, description: "Framer field type." },
+    cases: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Enum case names, for enum fields.",
+    },
+    collectionId: {
+      type: coda.ValueType.String,
+      description: "Referenced collection id, for reference fields.",
+    },
+    allowedFileTypes: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Allowed file types, for file fields.",
+    },
+    userEditable: {
+      type: coda.ValueType.Boolean,
+      description: "Whether editors can change the field in Framer.",
+    },
+  },
+  displayProperty: "name",
+  idProperty: "id",
+  featuredProperties: ["name", "type", "cases", "collectionId"],
+});
+
 const PublishResultSchema = coda.makeObjectSchema({
   properties: {
     published: { type: coda.ValueType.Boolean, description: "Publish ran." },
+    deployed: {
+      type: coda.ValueType.Boolean,
+      description: "Whether the deployment was promoted to the live domains.",
+    },
     changeCount: { type: coda.ValueType.Number, description: "Total changes." },
     deploymentId: {
       type: coda.ValueType.String,
       description: "Deployment id if published.",
     },
+    previewHostname: {
+      type: coda.ValueType.String,
+      description: "Hostname serving this exact deployment, for review.",
+    },
     hostnames: {
       type: coda.ValueType.Array,
       items: { type: coda.ValueType.String },
       description: "Custom domains deployed.",
     },
+    retries: {
+      type: coda.ValueType.Number,
+      description:
+        "Framer calls retried after a transient failure. Publishing itself is never retried.",
+    },
+    message: { type: coda.ValueType.String, description: "Status message." },
+  },
+  featuredProperties: [
+    "published",
+    "deployed",
+    "changeCount",
+    "deploymentId",
+    "previewHostname",
+    "message",
+  ],
+});
+
+const DeploymentSchema = coda.makeObjectSchema({
+  properties: {
+    id: { type: coda.ValueType.String, description: "Deployment id." },
+    createdAt: {
+      type: coda.ValueType.String,
+      codaType: coda.ValueHintType.DateTime,
+      description: "When the deployment was published.",
+    },
+    updatedAt: {
+      type: coda.ValueType.String,
+      codaType: coda.ValueHintType.DateTime,
+      description: "When the deployment was last updated.",
+    },
+    hostnames: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description:
+        "Production hostname, attached to the deployment guessed to be live.",
+    },
+    isLive: {
+      type: coda.ValueType.Boolean,
+      description:
+        "Best-effort guess at whether this deployment serves the production site: the one last updated closest to the production publish time. PublishProject, DeployDeployment and RollbackToDeployment report the exact hostnames they deploy to.",
+    },
+  },
+  displayProperty: "id",
+  idProperty: "id",
+  featuredProperties: ["id", "createdAt", "hostnames", "isLive"],
+});
+
+const PendingChangesSchema = coda.makeObjectSchema({
+  properties: {
+    changeCount: { type: coda.ValueType.Number, description: "Total changes." },
+    added: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Paths that will be added.",
+    },
+    removed: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Paths that will be removed.",
+    },
+    modified: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Paths that will be modified.",
+    },
+  },
+  featuredProperties: ["changeCount", "added", "removed", "modified"],
+});
+
+const RemoveItemsResultSchema = coda.makeObjectSchema({
+  properties: {
+    collectionId: {
+      type: coda.ValueType.String,
+      description: "Framer collection id.",
+    },
+    removedIds: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Item ids removed from the collection.",
+    },
+    notFound: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Row ids or slugs that matched no item.",
+    },
     message: { type: coda.ValueType.String, description: "Status message." },
   },
-  featuredProperties: ["published", "changeCount", "deploymentId", "message"],
+  featuredProperties: ["removedIds", "notFound", "message"],
+});
+
+const MissingReferenceSchema = coda.makeObjectSchema({
+  properties: {
+    rowId: { type: coda.ValueType.String, description: "Coda row id." },
+    fieldId: { type: coda.ValueType.String, description: "Framer field id." },
+    fieldName: {
+      type: coda.ValueType.String,
+      description: "Framer field name.",
+    },
+    missingId: {
+      type: coda.ValueType.String,
+      description: "Referenced row id or name with no matching item.",
+    },
+  },
+  displayProperty: "missingId",
+});
+
+const RowResultSchema = coda.makeObjectSchema({
+  properties: {
+    rowId: { type: coda.ValueType.String, description: "Coda row id." },
+    itemId: {
+      type: coda.ValueType.String,
+      description: "Framer item id. Empty when the row was not pushed.",
+    },
+    slug: { type: coda.ValueType.String, description: "Framer item slug." },
+    status: {
+      type: coda.ValueType.String,
+      description: "created, updated, skipped (unchanged or not yet written) or failed.",
+    },
+    url: {
+      type: coda.ValueType.String,
+      codaType: coda.ValueHintType.Url,
+      description:
+        "Live page URL from the production domain and the collection's detail page. Empty for drafts, unwritten rows, or when there is no detail page.",
+    },
+    warnings: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Warnings about this row.",
+    },
+  },
+  displayProperty: "status",
+  idProperty: "rowId",
 });
 
 const PushResultSchema = coda.makeObjectSchema({
@@ -174,6 +411,22 @@ const PushResultSchema = coda.makeObjectSchema({
       type: coda.ValueType.Number,
       description: "Number of items written.",
     },
+    itemsCreated: {
+      type: coda.ValueType.Number,
+      description: "Number of new items created.",
+    },
+    itemsUpdated: {
+      type: coda.ValueType.Number,
+      description: "Number of existing items whose content changed.",
+    },
+    itemsUnchanged: {
+      type: coda.ValueType.Number,
+      description: "Number of items left as they were.",
+    },
+    itemsRemoved: {
+      type: coda.ValueType.Number,
+      description: "Number of items removed from the collection.",
+    },
     itemsSkipped: {
       type: coda.ValueType.Number,
       description: "Number of items skipped.",
@@ -182,11 +435,42 @@ const PushResultSchema = coda.makeObjectSchema({
       type: coda.ValueType.Number,
       description: "Number of fields set on the collection.",
     },
+    fieldsAdded: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Fields new to the collection.",
+    },
+    fieldsRetyped: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Existing fields whose type changed.",
+    },
+    fieldsRemoved: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Fields removed from the collection.",
+    },
+    dryRun: {
+      type: coda.ValueType.Boolean,
+      description: "Whether this was a preview that wrote nothing.",
+    },
     warnings: {
       type: coda.ValueType.Array,
       items: { type: coda.ValueType.String },
       description: "Mapping warnings.",
     },
+    missingReferences: {
+      type: coda.ValueType.Array,
+      items: MissingReferenceSchema,
+      description:
+        "References left out because their target item does not exist.",
+    },
+    rows: {
+      type: coda.ValueType.Array,
+      items: RowResultSchema,
+      description:
+        "One result per row, in payload order, for writing push status back to Coda.",
+    },
     published: {
       type: coda.ValueType.Boolean,
       description: "Whether publish was triggered.",
@@ -195,18 +479,67 @@ const PushResultSchema = coda.makeObjectSchema({
       type: coda.ValueType.String,
       description: "Deployment id if published.",
     },
+    batchesSucceeded: {
+      type: coda.ValueType.Number,
+      description: "Number of item batches written.",
+    },
+    continuationToken: {
+      type: coda.ValueType.String,
+      description:
+        "Pass to the next push to resume where this one stopped. Empty when every item was written.",
+    },
+    retries: {
+      type: coda.ValueType.Number,
+      description: "Framer calls retried after a transient failure.",
+    },
     message: { type: coda.ValueType.String, description: "Status message." },
   },
   featuredProperties: [
     "collectionName",
-    "itemsAdded",
+    "itemsCreated",
+    "itemsUpdated",
+    "itemsUnchanged",
+    "itemsRemoved",
     "itemsSkipped",
     "fieldsSet",
     "published",
+    "continuationToken",
     "message",
   ],
 });
 
+const PushTablesResultSchema = coda.makeObjectSchema({
+  properties: {
+    order: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description: "Collection names in the order they were pushed.",
+    },
+    tables: {
+      type: coda.ValueType.Array,
+      items: PushResultSchema,
+      description: "Push result for each table pushed in this run.",
+    },
+    warnings: {
+      type: coda.ValueType.Array,
+      items: { type: coda.ValueType.String },
+      description:
+        "Warnings about the push order, and about collections a dry run could not account for.",
+    },
+    continuationToken: {
+      type: coda.ValueType.String,
+      description:
+        "Pass this to the next run to resume where this one stopped. Empty when every table finished.",
+    },
+    retries: {
+      type: coda.ValueType.Number,
+      description: "Framer calls retried after a transient failure, across all tables.",
+    },
+    message: { type: coda.ValueType.String, description: "Status message." },
+  },
+  featuredProperties: ["order", "tables", "continuationToken", "message"],
+});
+
 pack.addSyncTable({
   name: "ManagedCollections",
   description: "List managed collections for a Framer project.",
@@ -224,8 +557,10 @@ pack.addSyncTable({
     ],
     execute: async ([projectUrl], context) => {
       const apiKey = getApiKey(context);
-      using framer = await connect(projectUrl, apiKey);
-      const collections = await framer.getManagedCollections();
+      using framer = await openSession(projectUrl, apiKey);
+      const collections = await withSessionRetry(framer, () =>
+        framer.getManagedCollections(),
+      );
 
       return {
         result: collections.map((collection) => ({
@@ -238,6 +573,101 @@ pack.addSyncTable({
   },
 });
 
+pack.addSyncTable({
+  name: "CollectionFields",
+  description: "List the fields of a Framer managed collection.",
+  identityName: "CollectionField",
+  schema: CollectionFieldSchema,
+  formula: {
+    name: "SyncCollectionFields",
+    description: "Sync the field schema of a Framer managed collection.",
+    parameters: [
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "projectUrl",
+        description: "Framer project URL.",
+      }),
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "collectionId",
+        description: "Managed collection id.",
+        autocomplete: autocompleteCollectionId,
+      }),
+    ],
+    execute: async ([projectUrl, collectionId], context) => {
+      const apiKey = getApiKey(context);
+      using framer = await openSession(projectUrl, apiKey);
+      const handle = await getCollectionHandleById(framer, collectionId);
+
+      return {
+        result: handle.fields.map((field) => ({
+          id: field.id,
+          name: field.name,
+          type: field.type,
+          cases:
+            "cases" in field && Array.isArray(field.cases)
+              ? field.cases.map((item) => item.name)
+              : [],
+          collectionId:
+            "collectionId" in field && typeof field.collectionId === "string"
+              ? field.collectionId
+              : "",
+          allowedFileTypes:
+            "allowedFileTypes" in field && Array.isArray(field.allowedFileTypes)
+              ? field.allowedFileTypes
+              : [],
+          userEditable: field.userEditable,
+        })),
+      };
+    },
+  },
+});
+
+pack.addSyncTable({
+  name: "CollectionItems",
+  description: "List the items of a Framer managed collection with their field values.",
+  identityName: "CollectionItem",
+  schema: CollectionItemBaseSchema,
+  dynamicOptions: {
+    getSchema: async (context, _search, args) => {
+      const apiKey = getApiKey(context);
+      using framer = await openSession(String(args?.projectUrl), apiKey);
+      const handle = await getCollectionHandleById(
+        framer,
+        String(args?.collectionId),
+      );
+      return buildCollectionItemSchema(handle.fields);
+    },
+  },
+  formula: {
+    name: "SyncCollectionItems",
+    description: "Sync items from a Framer managed collection.",
+    parameters: [
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "projectUrl",
+        description: "Framer project URL.",
+      }),
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "collectionId",
+        description: "Managed collection id.",
+        autocomplete: autocompleteCollectionId,
+      }),
+    ],
+    execute: async ([projectUrl, collectionId], context) => {
+      const apiKey = getApiKey(context);
+      using framer = await openSession(projectUrl, apiKey);
+      const handle = await getCollectionHandleById(framer, collectionId);
+      const items = await getCollectionItems(framer, handle);
+
+      return {
+        result: items.map((item) => collectionItemToRow(item, handle.fields)),
+      };
+    },
+  },
+});
+
 pack.addFormula({
   name: "ListManagedCollectionItems",
   description: "List items in a managed collection by id.",
@@ -251,71 +681,65 @@ pack.addFormula({
       type: coda.ParameterType.String,
       name: "collectionId",
       description: "Managed collection id.",
+      autocomplete: autocompleteCollectionId,
     }),
   ],
   resultType: coda.ValueType.Array,
   items: { type: coda.ValueType.String },
   execute: async ([projectUrl, collectionId], context) => {
     const apiKey = getApiKey(context);
-    using framer = await connect(projectUrl, apiKey);
-    const collections = await framer.getManagedCollections();
-    const collection = collections.find((item) => item.id === collectionId);
-    if (!collection) {
-      throw new coda.UserVisibleError("Managed collection not found.");
-    }
-
-    return await collection.getItemIds();
+    using framer = await openSession(projectUrl, apiKey);
+    const handle = await getCollectionHandleById(framer, collectionId);
+    return handle.itemIds;
   },
 });
 
 pack.addFormula({
-  name: "PublishProject",
-  description: "Publish and deploy pending changes to a Framer project. Run this after PushRowToCollection or PushTableToCollection.",
-  isAction: true,
+  name: "GetItemUrl",
+  description:
+    "Get the live URL of a collection item from the production domain and the collection's CMS detail page.",
   parameters: [
     coda.makeParameter({
       type: coda.ParameterType.String,
       name: "projectUrl",
       description: "Framer project URL.",
     }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "collectionName",
+      description: "Managed collection name.",
+      autocomplete: autocompleteCollectionName,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "slug",
+      description: "Item slug, e.g. the slug column of a push result's rows.",
+    }),
   ],
-  resultType: coda.ValueType.Object,
-  schema: PublishResultSchema,
-  execute: async ([projectUrl], context) => {
+  resultType: coda.ValueType.String,
+  codaType: coda.ValueHintType.Url,
+  execute: async ([projectUrl, collectionName, slug], context) => {
     const apiKey = getApiKey(context);
-    using framer = await connect(projectUrl, apiKey);
-    const changedPaths = await framer.getChangedPaths();
-    const changeCount =
-      (changedPaths.added?.length ?? 0) +
-      (changedPaths.removed?.length ?? 0) +
-      (changedPaths.modified?.length ?? 0);
-
-    if (changeCount === 0) {
-      return {
-        published: false,
-        changeCount,
-        deploymentId: "",
-        hostnames: [],
-        message: "No pending changes. Run PushRowToCollection or PushTableToCollection first.",
-      };
+    using framer = await openSession(projectUrl, apiKey);
+    const collection = await requireCollectionHandle(framer, collectionName);
+    const urlBase = await loadItemUrlBase(framer, collection.collectionId);
+    if (!urlBase.origin) {
+      throw new coda.UserVisibleError(
+        "The project has not been deployed yet. Run PublishProject first.",
+      );
     }
-
-    const publishResult = await framer.publish();
-    await framer.deploy(publishResult.deployment.id);
-
-    return {
-      published: true,
-      changeCount,
-      deploymentId: publishResult.deployment.id,
-      hostnames: publishResult.hostnames.map((hostname) => hostname.hostname),
-      message: `✅ Published and deployed ${changeCount} change(s).`,
-    };
+    if (!urlBase.pathPattern) {
+      throw new coda.UserVisibleError(
+        `"${collection.collectionName}" has no CMS detail page in the project.`,
+      );
+    }
+    return buildItemUrl(urlBase, slug);
   },
 });
 
 pack.addFormula({
-  name: "PushRowToCollection",
-  description: "Push a single row into a Framer managed collection.",
+  name: "RemoveItemsFromCollection",
+  description: "Remove specific items from a Framer collection by Coda row id or slug.",
   isAction: true,
   parameters: [
     coda.makeParameter({
@@ -326,14 +750,253 @@ pack.addFormula({
     coda.makeParameter({
       type: coda.ParameterType.String,
       name: "collectionName",
-      description: "Managed collection name (created if missing).",
+      description: "Target collection name.",
+      autocomplete: autocompleteCollectionName,
     }),
     coda.makeParameter({
-      type: coda.ParameterType.String,
-      name: "slugFieldId",
-      description: "Coda column id to use as the slug.",
+      type: coda.ParameterType.StringArray,
+      name: "rowIdsOrSlugs",
+      description: "Coda row ids or item slugs to remove.",
     }),
-    coda.makeParameter({
+  ],
+  resultType: coda.ValueType.Object,
+  schema: RemoveItemsResultSchema,
+  execute: async ([projectUrl, collectionName, rowIdsOrSlugs], context) => {
+    const apiKey = getApiKey(context);
+    using framer = await openSession(projectUrl, apiKey);
+    const handle = await requireCollectionHandle(framer, collectionName);
+
+    const { removedIds, notFound } = await removeItemsByIdOrSlug(
+      framer,
+      handle,
+      rowIdsOrSlugs,
+    );
+
+    return {
+      collectionId: handle.collectionId,
+      removedIds,
+      notFound,
+      message: `✅ Removed ${removedIds.length} item(s)${notFound.length > 0 ? `; ${notFound.length} not found` : ""}. Run PublishProject to go live.`,
+    };
+  },
+});
+
+pack.addFormula({
+  name: "PendingChanges",
+  description: "List the paths that will be added, removed or modified by the next PublishProject.",
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+  ],
+  resultType: coda.ValueType.Object,
+  schema: PendingChangesSchema,
+  cacheTtlSecs: 0,
+  execute: async ([projectUrl], context) => {
+    const apiKey = getApiKey(context);
+    using framer = await openSession(projectUrl, apiKey);
+    return await getPendingChanges(framer);
+  },
+});
+
+pack.addFormula({
+  name: "PublishProject",
+  description: "Publish and deploy pending changes to a Framer project. Run this after PushRowToCollection or PushTableToCollection.",
+  isAction: true,
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "publishOnly",
+      description:
+        "Publish a reviewable deployment without deploying it to the live domains. Promote it later with DeployDeployment.",
+      optional: true,
+    }),
+  ],
+  resultType: coda.ValueType.Object,
+  schema: PublishResultSchema,
+  execute: async ([projectUrl, publishOnly], context) => {
+    const apiKey = getApiKey(context);
+    using framer = await openSession(projectUrl, apiKey);
+    const { changeCount } = await getPendingChanges(framer);
+
+    if (changeCount === 0) {
+      return {
+        published: false,
+        deployed: false,
+        changeCount,
+        deploymentId: "",
+        previewHostname: "",
+        hostnames: [],
+        retries: getRetryCount(framer),
+        message: "No pending changes. Run PushRowToCollection or PushTableToCollection first.",
+      };
+    }
+
+    // Not retried: a publish that failed late may still have made a deployment.
+    const publishResult = await framer.publish();
+    const deploymentId = publishResult.deployment.id;
+    const previewHostname = selectPreviewHostname(publishResult.hostnames);
+
+    if (publishOnly) {
+      return {
+        published: true,
+        deployed: false,
+        changeCount,
+        deploymentId,
+        previewHostname,
+        hostnames: [],
+        retries: getRetryCount(framer),
+        message: `✅ Published ${changeCount} change(s) for review at ${previewHostname || "the preview hostname"}. Run DeployDeployment to go live.`,
+      };
+    }
+
+    const hostnames = await deployDeployment(framer, deploymentId);
+
+    return {
+      published: true,
+      deployed: true,
+      changeCount,
+      deploymentId,
+      previewHostname,
+      hostnames,
+      retries: getRetryCount(framer),
+      message: `✅ Published and deployed ${changeCount} change(s).`,
+    };
+  },
+});
+
+pack.addFormula({
+  name: "DeployDeployment",
+  description: "Deploy a deployment created by PublishProject with publishOnly to the project's live domains.",
+  isAction: true,
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "deploymentId",
+      description: "Deployment id returned by PublishProject.",
+    }),
+  ],
+  resultType: coda.ValueType.Object,
+  schema: PublishResultSchema,
+  execute: async ([projectUrl, deploymentId], context) => {
+    const apiKey = getApiKey(context);
+    using framer = await openSession(projectUrl, apiKey);
+    const hostnames = await deployDeployment(framer, deploymentId);
+
+    return {
+      published: false,
+      deployed: true,
+      changeCount: 0,
+      deploymentId,
+      previewHostname: "",
+      hostnames,
+      retries: getRetryCount(framer),
+      message: `✅ Deployed ${deploymentId} to ${hostnames.length} hostname(s).`,
+    };
+  },
+});
+
+pack.addSyncTable({
+  name: "Deployments",
+  description: "List a Framer project's deployments, newest first.",
+  identityName: "Deployment",
+  schema: DeploymentSchema,
+  formula: {
+    name: "SyncDeployments",
+    description: "Sync deployments from a Framer project.",
+    parameters: [
+      coda.makeParameter({
+        type: coda.ParameterType.String,
+        name: "projectUrl",
+        description: "Framer project URL.",
+      }),
+    ],
+    execute: async ([projectUrl], context) => {
+      const apiKey = getApiKey(context);
+      using framer = await openSession(projectUrl, apiKey);
+      return { result: await listDeployments(framer) };
+    },
+  },
+});
+
+pack.addFormula({
+  name: "RollbackToDeployment",
+  description: "Redeploy an earlier deployment to the project's live domains.",
+  isAction: true,
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "deploymentId",
+      description: "Deployment id from the Deployments table.",
+    }),
+  ],
+  resultType: coda.ValueType.Object,
+  schema: PublishResultSchema,
+  execute: async ([projectUrl, deploymentId], context) => {
+    const apiKey = getApiKey(context);
+    using framer = await openSession(projectUrl, apiKey);
+    const deployments = await withSessionRetry(framer, () =>
+      framer.getDeployments(),
+    );
+    if (!deployments.some((deployment) => deployment.id === deploymentId)) {
+      throw new coda.UserVisibleError(`Deployment ${deploymentId} not found.`);
+    }
+    const hostnames = await deployDeployment(framer, deploymentId);
+
+    return {
+      published: false,
+      deployed: true,
+      changeCount: 0,
+      deploymentId,
+      previewHostname: "",
+      hostnames,
+      retries: getRetryCount(framer),
+      message: `✅ Rolled back to ${deploymentId} on ${hostnames.length} hostname(s).`,
+    };
+  },
+});
+
+pack.addFormula({
+  name: "PushRowToCollection",
+  description: "Push a single row into a Framer managed collection.",
+  isAction: true,
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "collectionName",
+      description:
+        "Managed collection name. Must already exist unless createIfMissing is set.",
+      autocomplete: autocompleteCollectionName,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "slugFieldId",
+      description: "Coda column id to use as the slug.",
+      autocomplete: autocompleteColumnId,
+    }),
+    coda.makeParameter({
       type: coda.ParameterType.String,
       name: "columnsJson",
       description: "JSON array of Coda column metadata.",
@@ -356,6 +1019,56 @@ pack.addFormula({
       description: "Format time values as 12-hour strings.",
       optional: true,
     }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "dryRun",
+      description:
+        "Preview the field and item changes without writing anything to Framer.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "mappingJson",
+      description:
+        "Optional JSON object of per-column overrides keyed by Coda column id: type, name, fieldId or exclude.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "publishedFieldId",
+      description:
+        "Optional Coda column id (checkbox or select) that controls publishing. Checked, or a value such as Published, Live or Yes, publishes the item; anything else keeps it as a draft.",
+      optional: true,
+      autocomplete: autocompleteColumnId,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "slugTemplate",
+      description:
+        'Optional slug template built from column names or ids, e.g. "{Title}-{Date}". Replaces the slugFieldId value.',
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "codaTableId",
+      description:
+        "Optional id of the Coda table being pushed, recorded on the collection so lookups in other tables can find it. Defaults to the columns' parent table.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "abortOnMissingReference",
+      description:
+        "Stop without writing anything when a reference points at a missing item, instead of leaving that reference out.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "createIfMissing",
+      description:
+        "Create the collection when none has this name. Off by default, so a misspelled name fails instead of leaving a stray collection.",
+      optional: true,
+    }),
   ],
   resultType: coda.ValueType.Object,
   schema: PushResultSchema,
@@ -368,6 +1081,13 @@ pack.addFormula({
       rowJson,
       referenceMapJson,
       use12HourTime,
+      dryRun,
+      mappingJson,
+      publishedFieldId,
+      slugTemplate,
+      codaTableId,
+      abortOnMissingReference,
+      createIfMissing,
     ],
     context,
   ) => {
@@ -377,72 +1097,34 @@ pack.addFormula({
     );
     const rowInput = parseJsonParam<unknown>(rowJson, "row");
     const rows = normalizeRows([rowInput]);
-    const referenceMap = buildReferenceMap(
+    const referenceOverrides = buildReferenceMap(
       referenceMapJson
         ? parseJsonArray<ReferenceMapEntry>(referenceMapJson, "referenceMap")
         : undefined,
     );
-
-    const collection = await getOrCreateManagedCollection(
-      projectUrl,
-      apiKey,
-      collectionName,
+    const mappingConfig = parseMappingParam(mappingJson, columns);
+    const { publishedColumnId, slugTemplate: template } = requireTableOptions(
+      { publishedFieldId, slugTemplate },
+      columns,
     );
+    const sourceTableId = codaTableId || getSourceTableId(columns);
 
-    const mapping = buildFieldsAndItems({
+    using framer = await openSession(projectUrl, apiKey);
+    return await pushRows(framer, {
+      collectionName,
+      slugFieldId,
       columns,
       rows,
-      slugFieldId,
-      referenceMap,
+      referenceOverrides,
+      mappingConfig,
+      publishedColumnId,
+      slugTemplate: template,
+      sourceTableId,
       use12HourTime: Boolean(use12HourTime),
+      dryRun: Boolean(dryRun),
+      abortOnMissingReference: Boolean(abortOnMissingReference),
+      createIfMissing: Boolean(createIfMissing),
     });
-
-    using framer1 = await connect(projectUrl, apiKey);
-    const collections1 = await framer1.getManagedCollections();
-    const target1 = collections1.find(
-      (item) => item.id === collection.collectionId,
-    );
-    if (!target1) {
-      throw new coda.UserVisibleError("Managed collection not found.");
-    }
-    const existingFields = await target1.getFields();
-
-    const mergedFields = mergeFieldsWithExistingFields(
-      mapping.fields,
-      existingFields,
-    );
-    const fieldsSet = await setCollectionFields(
-      projectUrl,
-      apiKey,
-      collection.collectionId,
-      mergedFields,
-    );
-
-    using framer2 = await connect(projectUrl, apiKey);
-    const collections2 = await framer2.getManagedCollections();
-    const target2 = collections2.find(
-      (item) => item.id === collection.collectionId,
-    );
-    if (!target2) {
-      throw new coda.UserVisibleError("Managed collection not found.");
-    }
-    if (mapping.items.length > 0) {
-      await target2.addItems(mapping.items);
-    }
-
-    return {
-      collectionId: collection.collectionId,
-      collectionName: collection.collectionName,
-      itemsAdded: mapping.items.length,
-      itemsSkipped: mapping.skippedCount,
-      fieldsSet,
-      warnings: mapping.warnings,
-      published: false,
-      deploymentId: "",
-      message: collection.created
-        ? `✅ Collection created and row pushed to "${collection.collectionName}". Run PublishProject to deploy.`
-        : `✅ Row pushed to "${collection.collectionName}". Run PublishProject to deploy.`,
-    };
   },
 });
 
@@ -459,12 +1141,15 @@ pack.addFormula({
     coda.makeParameter({
       type: coda.ParameterType.String,
       name: "collectionName",
-      description: "Managed collection name (created if missing).",
+      description:
+        "Managed collection name. Must already exist unless createIfMissing is set.",
+      autocomplete: autocompleteCollectionName,
     }),
     coda.makeParameter({
       type: coda.ParameterType.String,
       name: "slugFieldId",
       description: "Coda column id to use as the slug.",
+      autocomplete: autocompleteColumnId,
     }),
     coda.makeParameter({
       type: coda.ParameterType.String,
@@ -495,6 +1180,63 @@ pack.addFormula({
       description: "Format time values as 12-hour strings.",
       optional: true,
     }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "continuationToken",
+      description:
+        "Optional token from a previous push that stopped early, to resume writing items.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "dryRun",
+      description:
+        "Preview the field and item changes without writing anything to Framer.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "mappingJson",
+      description:
+        "Optional JSON object of per-column overrides keyed by Coda column id: type, name, fieldId or exclude.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "publishedFieldId",
+      description:
+        "Optional Coda column id (checkbox or select) that controls publishing. Checked, or a value such as Published, Live or Yes, publishes the item; anything else keeps it as a draft.",
+      optional: true,
+      autocomplete: autocompleteColumnId,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "slugTemplate",
+      description:
+        'Optional slug template built from column names or ids, e.g. "{Title}-{Date}". Replaces the slugFieldId value.',
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "codaTableId",
+      description:
+        "Optional id of the Coda table being pushed, recorded on the collection so lookups in other tables can find it. Defaults to the columns' parent table.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "abortOnMissingReference",
+      description:
+        "Stop without writing anything when a reference points at a missing item, instead of leaving that reference out.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "createIfMissing",
+      description:
+        "Create the collection when none has this name. Off by default, so a misspelled name fails instead of leaving a stray collection.",
+      optional: true,
+    }),
   ],
   resultType: coda.ValueType.Object,
   schema: PushResultSchema,
@@ -508,92 +1250,519 @@ pack.addFormula({
       referenceMapJson,
       pruneMissing,
       use12HourTime,
+      continuationToken,
+      dryRun,
+      mappingJson,
+      publishedFieldId,
+      slugTemplate,
+      codaTableId,
+      abortOnMissingReference,
+      createIfMissing,
     ],
     context,
   ) => {
+    const deadline = Date.now() + PUSH_TIME_BUDGET_MS;
     const apiKey = getApiKey(context);
     const columns = normalizeColumns(
       parseJsonArray<CodaColumnInput>(columnsJson, "columns"),
     );
     const rowInput = parseJsonArray<unknown>(rowsJson, "rows");
     const rows = normalizeRows(rowInput);
-    const referenceMap = buildReferenceMap(
+    const referenceOverrides = buildReferenceMap(
       referenceMapJson
         ? parseJsonArray<ReferenceMapEntry>(referenceMapJson, "referenceMap")
         : undefined,
     );
-
-    const collection = await getOrCreateManagedCollection(
-      projectUrl,
-      apiKey,
-      collectionName,
+    const mappingConfig = parseMappingParam(mappingJson, columns);
+    const { publishedColumnId, slugTemplate: template } = requireTableOptions(
+      { publishedFieldId, slugTemplate },
+      columns,
     );
+    const sourceTableId = codaTableId || getSourceTableId(columns);
 
-    const mapping = buildFieldsAndItems({
+    using framer = await openSession(projectUrl, apiKey);
+    return await pushTable(framer, {
+      collectionName,
+      slugFieldId,
       columns,
       rows,
-      slugFieldId,
-      referenceMap,
+      referenceOverrides,
+      mappingConfig,
+      publishedColumnId,
+      slugTemplate: template,
+      sourceTableId,
       use12HourTime: Boolean(use12HourTime),
+      pruneMissing: Boolean(pruneMissing),
+      continuationToken,
+      dryRun: Boolean(dryRun),
+      abortOnMissingReference: Boolean(abortOnMissingReference),
+      createIfMissing: Boolean(createIfMissing),
+      deadline,
     });
+  },
+});
 
-    using framer1 = await connect(projectUrl, apiKey);
-    const collections1 = await framer1.getManagedCollections();
-    const target1 = collections1.find(
-      (item) => item.id === collection.collectionId,
-    );
-    if (!target1) {
-      throw new coda.UserVisibleError("Managed collection not found.");
-    }
-    const existingFields = await target1.getFields();
-
-    const mergedFields = mergeFieldsWithExistingFields(
-      mapping.fields,
-      existingFields,
-    );
-    const fieldsSet = await setCollectionFields(
+pack.addFormula({
+  name: "PushTablesToProject",
+  description:
+    "Push several tables to a Framer project, referenced tables first, linking lookups to the collections just pushed.",
+  isAction: true,
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "tablesJson",
+      description:
+        "JSON array of tables, each with collectionName, slugFieldId, columns and rows, and optionally codaTableId, mapping, publishedFieldId, slugTemplate and pruneMissing.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "referenceMapJson",
+      description:
+        "Optional JSON array mapping lookup table ids to Framer collection ids.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "use12HourTime",
+      description: "Format time values as 12-hour strings.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "continuationToken",
+      description:
+        "Optional token from a previous run that stopped early, to resume writing items.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "dryRun",
+      description:
+        "Preview the field and item changes without writing anything to Framer.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "abortOnMissingReference",
+      description:
+        "Stop a table's push without writing it when a reference points at a missing item, instead of leaving that reference out.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "createIfMissing",
+      description:
+        "Create each table's collection when none has its name. Off by default, so a misspelled name fails instead of leaving a stray collection.",
+      optional: true,
+    }),
+  ],
+  resultType: coda.ValueType.Object,
+  schema: PushTablesResultSchema,
+  execute: async (
+    [
       projectUrl,
-      apiKey,
-      collection.collectionId,
-      mergedFields,
+      tablesJson,
+      referenceMapJson,
+      use12HourTime,
+      continuationToken,
+      dryRun,
+      abortOnMissingReference,
+      createIfMissing,
+    ],
+    context,
+  ) => {
+    const deadline = Date.now() + PUSH_TIME_BUDGET_MS;
+    const apiKey = getApiKey(context);
+    const referenceOverrides = buildReferenceMap(
+      referenceMapJson
+        ? parseJsonArray<ReferenceMapEntry>(referenceMapJson, "referenceMap")
+        : undefined,
     );
-
-    using framer2 = await connect(projectUrl, apiKey);
-    const collections2 = await framer2.getManagedCollections();
-    const target2 = collections2.find(
-      (item) => item.id === collection.collectionId,
+    const tables = parseJsonArray<TablePayload>(tablesJson, "tables").map(
+      (table, index) => {
+        if (
+          !table?.collectionName ||
+          !table.slugFieldId ||
+          !Array.isArray(table.columns) ||
+          !Array.isArray(table.rows)
+        ) {
+          throw new coda.UserVisibleError(
+            `Table ${index + 1} in tables needs collectionName, slugFieldId, columns and rows.`,
+          );
+        }
+        const columns = normalizeColumns(table.columns);
+        return {
+          collectionName: table.collectionName,
+          slugFieldId: table.slugFieldId,
+          columns,
+          rows: normalizeRows(table.rows),
+          mappingConfig: table.mapping
+            ? parseMappingParam(JSON.stringify(table.mapping), columns)
+            : undefined,
+          ...requireTableOptions(table, columns),
+          sourceTableId: table.codaTableId || getSourceTableId(columns),
+          pruneMissing: Boolean(table.pruneMissing),
+        };
+      },
     );
-    if (!target2) {
-      throw new coda.UserVisibleError("Managed collection not found.");
+    if (tables.length === 0) {
+      throw new coda.UserVisibleError("tables must list at least one table.");
     }
-    if (pruneMissing) {
-      const existingIds = new Set(await target2.getItemIds());
-      const incomingIds = new Set(
-        mapping.items.map((item) => item.id).filter(Boolean),
+
+    const { order, cyclic, unlinked } = orderByLookupDependencies(
+      tables.map((table) => ({
+        tableId: table.sourceTableId,
+        columns: table.columns,
+      })),
+    );
+    const orderedTables = order.map((index) => tables[index]!);
+    const warnings: string[] = [];
+    if (cyclic.length > 0) {
+      warnings.push(
+        `Tables ${cyclic.map((index) => `"${tables[index]!.collectionName}"`).join(", ")} reference each other and were pushed in the given order. Run again to link every reference.`,
       );
-      const toRemove = Array.from(existingIds).filter(
-        (id) => !incomingIds.has(id),
+    }
+    if (unlinked.length > 0) {
+      warnings.push(
+        `Tables ${unlinked.map((index) => `"${tables[index]!.collectionName}"`).join(", ")} have no codaTableId or lookup columns without a table id, so their place in the order follows the given order. List referenced tables first, or run again to link every reference.`,
       );
-      if (toRemove.length > 0) {
-        await target2.removeItems(toRemove);
-      }
     }
-    if (mapping.items.length > 0) {
-      await target2.addItems(mapping.items);
+    const { position, tableToken } = decodeTablesToken(
+      continuationToken,
+      orderedTables.length,
+    );
+
+    using framer = await openSession(projectUrl, apiKey);
+    const results: Array<Awaited<ReturnType<typeof pushTable>>> = [];
+    for (let index = position; index < orderedTables.length; index++) {
+      if (results.length > 0 && Date.now() >= deadline) {
+        return {
+          order: orderedTables.map((table) => table.collectionName),
+          tables: results,
+          warnings,
+          retries: getRetryCount(framer),
+          continuationToken: encodeTablesToken(index),
+          message: `⏸ Pushed ${results.length} table(s) before stopping. Run again with the continuation token to push the rest.`,
+        };
+      }
+      const result = await pushTable(framer, {
+        ...orderedTables[index]!,
+        referenceOverrides,
+        use12HourTime: Boolean(use12HourTime),
+        continuationToken: index === position ? tableToken : undefined,
+        dryRun: Boolean(dryRun),
+        abortOnMissingReference: Boolean(abortOnMissingReference),
+        createIfMissing: Boolean(createIfMissing),
+        deadline,
+      });
+      results.push(result);
+      if (dryRun && !result.collectionId && index < orderedTables.length - 1) {
+        warnings.push(
+          `"${result.collectionName}" does not exist yet, so this dry run reports references to it from later tables as missing. A real push creates it first.`,
+        );
+      }
+      if (result.continuationToken) {
+        return {
+          order: orderedTables.map((table) => table.collectionName),
+          tables: results,
+          warnings,
+          retries: getRetryCount(framer),
+          continuationToken: encodeTablesToken(index, result.continuationToken),
+          message: `⏸ Stopped partway through "${result.collectionName}". Run again with the continuation token to resume.`,
+        };
+      }
     }
 
     return {
+      order: orderedTables.map((table) => table.collectionName),
+      tables: results,
+      warnings,
+      retries: getRetryCount(framer),
+      continuationToken: "",
+      message: dryRun
+        ? `🔍 Dry run of ${results.length} table(s). Nothing was written.`
+        : `✅ Pushed ${results.length} table(s). Run PublishProject to deploy.`,
+    };
+  },
+});
+
+pack.addFormula({
+  name: "ResetCollection",
+  description:
+    "Remove every item and field from an existing Framer collection, then rebuild it from a table payload.",
+  isAction: true,
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "collectionName",
+      description: "Existing collection name. It is never created.",
+      autocomplete: autocompleteCollectionName,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "slugFieldId",
+      description: "Coda column id to use as the slug.",
+      autocomplete: autocompleteColumnId,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "columnsJson",
+      description: "JSON array of Coda column metadata.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "rowsJson",
+      description: "JSON array of rows (each with id and values).",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "referenceMapJson",
+      description:
+        "Optional JSON array mapping lookup table ids to Framer collection ids.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "use12HourTime",
+      description: "Format time values as 12-hour strings.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "mappingJson",
+      description:
+        "Optional JSON object of per-column overrides keyed by Coda column id: type, name, fieldId or exclude.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "publishedFieldId",
+      description:
+        "Optional Coda column id (checkbox or select) that controls publishing. Checked, or a value such as Published, Live or Yes, publishes the item; anything else keeps it as a draft.",
+      optional: true,
+      autocomplete: autocompleteColumnId,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "slugTemplate",
+      description:
+        'Optional slug template built from column names or ids, e.g. "{Title}-{Date}". Replaces the slugFieldId value.',
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "codaTableId",
+      description:
+        "Optional id of the Coda table being pushed, recorded on the collection so lookups in other tables can find it. Defaults to the columns' parent table.",
+      optional: true,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.Boolean,
+      name: "abortOnMissingReference",
+      description:
+        "Stop without writing anything when a reference points at a missing item, instead of leaving that reference out.",
+      optional: true,
+    }),
+  ],
+  resultType: coda.ValueType.Object,
+  schema: PushResultSchema,
+  execute: async (
+    [
+      projectUrl,
+      collectionName,
+      slugFieldId,
+      columnsJson,
+      rowsJson,
+      referenceMapJson,
+      use12HourTime,
+      mappingJson,
+      publishedFieldId,
+      slugTemplate,
+      codaTableId,
+      abortOnMissingReference,
+    ],
+    context,
+  ) => {
+    const deadline = Date.now() + PUSH_TIME_BUDGET_MS;
+    const apiKey = getApiKey(context);
+    const columns = normalizeColumns(
+      parseJsonArray<CodaColumnInput>(columnsJson, "columns"),
+    );
+    const rows = normalizeRows(parseJsonArray<unknown>(rowsJson, "rows"));
+    const referenceOverrides = buildReferenceMap(
+      referenceMapJson
+        ? parseJsonArray<ReferenceMapEntry>(referenceMapJson, "referenceMap")
+        : undefined,
+    );
+    const mappingConfig = parseMappingParam(mappingJson, columns);
+    const { publishedColumnId, slugTemplate: template } = requireTableOptions(
+      { publishedFieldId, slugTemplate },
+      columns,
+    );
+    const sourceTableId = codaTableId || getSourceTableId(columns);
+
+    using framer = await openSession(projectUrl, apiKey);
+    const referenceMap = await discoverReferenceMap(
+      framer,
+      getLookupTableIds(columns),
+      referenceOverrides,
+    );
+    const mapping = buildFieldsAndItems({
+      columns,
+      rows,
+      slugFieldId,
+      referenceMap,
+      referenceTargets: await loadReferenceTargets(
+        framer,
+        getReferenceKeyFields(columns, referenceMap, mappingConfig),
+      ),
+      sourceTableId,
+      use12HourTime: Boolean(use12HourTime),
+      mapping: mappingConfig,
+      publishedFieldId: publishedColumnId,
+      slugTemplate: template,
+    });
+    assertReferencesResolved(mapping, abortOnMissingReference);
+    const collection = await requireCollectionHandle(framer, collectionName);
+    await saveCodaTableId(collection, sourceTableId);
+    const previousFields = collection.fields;
+    const { itemsRemoved } = await clearCollection(collection);
+
+    const fieldChanges = diffFields(
+      filterCompatibleFields(mapping.fields),
+      previousFields,
+    );
+    const fieldsSet = await setCollectionFields(collection, mapping.fields);
+    const batchResult = await writeItemsInBatches(collection, mapping.items, {
+      deadline: deadline - HASH_SAVE_RESERVE_MS,
+    });
+    mapping.warnings.push(...(await saveItemHashes(framer, collection, deadline)));
+    const urlBase = await loadRowUrlBase(framer, collection, mapping.warnings);
+
+    const warnings = batchResult.error
+      ? [...mapping.warnings, batchResult.error]
+      : mapping.warnings;
+    const summary = `Removed ${itemsRemoved} item(s) and rebuilt "${collection.collectionName}" with ${fieldsSet} field(s) and ${batchResult.written} item(s)`;
+    const result = {
       collectionId: collection.collectionId,
       collectionName: collection.collectionName,
-      itemsAdded: mapping.items.length,
+      itemsAdded: batchResult.written,
+      itemsCreated: batchResult.written,
+      itemsUpdated: 0,
+      itemsUnchanged: 0,
+      itemsRemoved,
       itemsSkipped: mapping.skippedCount,
       fieldsSet,
-      warnings: mapping.warnings,
+      fieldsAdded: fieldChanges.added,
+      fieldsRetyped: fieldChanges.retyped,
+      fieldsRemoved: fieldChanges.removed,
+      dryRun: false,
+      warnings,
+      missingReferences: mapping.referenceIssues,
+      rows: buildRowResults(
+        rows,
+        mapping,
+        new Map(mapping.items.map((item) => [item.id, "created" as const])),
+        urlBase,
+        {
+          ids: new Set(batchResult.writtenIds),
+          unwrittenStatus: batchResult.error ? "failed" : "skipped",
+          unwrittenWarning:
+            batchResult.error ??
+            "Not written before the time limit. Run PushTableToCollection with the continuation token to finish.",
+        },
+      ),
       published: false,
       deploymentId: "",
-      message: collection.created
-        ? `✅ Collection created and ${mapping.items.length} row(s) pushed to "${collection.collectionName}". Run PublishProject to deploy.`
-        : `✅ ${mapping.items.length} row(s) pushed to "${collection.collectionName}". Run PublishProject to deploy.`,
+      batchesSucceeded: batchResult.batchesSucceeded,
+      retries: getRetryCount(framer),
     };
+
+    if (batchResult.nextOffset !== null) {
+      return {
+        ...result,
+        continuationToken: encodeContinuationToken(
+          collection,
+          batchResult.nextOffset,
+          mapping.items.length,
+        ),
+        message: `⏸ ${summary} before stopping. Run PushTableToCollection with the continuation token to finish.`,
+      };
+    }
+
+    return {
+      ...result,
+      continuationToken: "",
+      message: `✅ ${summary}. Run PublishProject to deploy.`,
+    };
+  },
+});
+
+// Listed so they can be found next to ResetCollection, but the Framer Server
+// API has no call to rename or delete a managed collection.
+pack.addFormula({
+  name: "RenameCollection",
+  description:
+    "Not supported: the Framer Server API cannot rename a managed collection. Rename it in Framer instead.",
+  isAction: true,
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "collectionName",
+      description: "Current collection name.",
+      autocomplete: autocompleteCollectionName,
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "newName",
+      description: "New collection name.",
+    }),
+  ],
+  resultType: coda.ValueType.String,
+  execute: async ([, collectionName, newName]) => {
+    throw new coda.UserVisibleError(
+      `Collections cannot be renamed from Coda: the Framer Server API has no call to rename a managed collection. Rename "${collectionName}" to "${newName}" in Framer, then use the new name as collectionName in your push actions.`,
+    );
+  },
+});
+
+pack.addFormula({
+  name: "DeleteCollection",
+  description:
+    "Not supported: the Framer Server API cannot delete a managed collection. Use ResetCollection to empty it, or delete it in Framer.",
+  isAction: true,
+  parameters: [
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "projectUrl",
+      description: "Framer project URL.",
+    }),
+    coda.makeParameter({
+      type: coda.ParameterType.String,
+      name: "collectionName",
+      description: "Collection name.",
+      autocomplete: autocompleteCollectionName,
+    }),
+  ],
+  resultType: coda.ValueType.String,
+  execute: async ([, collectionName]) => {
+    throw new coda.UserVisibleError(
+      `Collections cannot be deleted from Coda: the Framer Server API has no call to delete a managed collection. Delete "${collectionName}" in Framer, or run ResetCollection to empty it.`,
+    );
   },
 });
@@ -0,0 +1,593 @@
+import * as coda from "@codahq/packs-sdk";
+import type { Framer } from "framer-api";
+import {
+  buildFieldsAndItems,
+  countItemChanges,
+  diffFields,
+  diffItems,
+  filterCompatibleFields,
+  getLookupTableIds,
+  getReferenceKeyFields,
+  mergeFieldsWithExistingFields,
+  type CodaColumnInput,
+  type ItemChange,
+  type MappingConfig,
+  type MappingResult,
+  type NormalizedRow,
+} from "./mapping";
+import {
+  decodeContinuationToken,
+  deployDeployment,
+  discoverReferenceMap,
+  encodeContinuationToken,
+  findCollectionHandle,
+  getOrCreateCollectionHandle,
+  requireCollectionHandle,
+  getPendingChanges,
+  getRetryCount,
+  HASH_SAVE_RESERVE_MS,
+  buildItemUrl,
+  loadItemHashes,
+  loadItemUrlBase,
+  loadReferenceTargets,
+  removeMissingItems,
+  resolveExistingSlugCollisions,
+  saveCodaTableId,
+  saveItemHashes,
+  setCollectionFields,
+  writeItems,
+  writeItemsInBatches,
+  type CollectionHandle,
+  type ItemUrlBase,
+} from "./session";
+
+const CREATE_IF_MISSING_HINT =
+  "Check the name, or pass createIfMissing to create the collection.";
+
+/** Look up the push target, creating it only when the caller asked for that. */
+async function resolveTargetCollection(
+  framer: Framer,
+  collectionName: string,
+  createIfMissing: boolean,
+  dryRun: boolean,
+): Promise<CollectionHandle | null> {
+  if (!createIfMissing) {
+    return await requireCollectionHandle(framer, collectionName, CREATE_IF_MISSING_HINT);
+  }
+  return dryRun
+    ? await findCollectionHandle(framer, collectionName)
+    : await getOrCreateCollectionHandle(framer, collectionName);
+}
+
+export function assertReferencesResolved(
+  mapping: MappingResult,
+  abortOnMissingReference: boolean | undefined,
+): void {
+  const issues = mapping.referenceIssues;
+  if (!abortOnMissingReference || issues.length === 0) return;
+  const examples = issues
+    .slice(0, 3)
+    .map((issue) => `row ${issue.rowId} "${issue.fieldName}" → ${issue.missingId}`)
+    .join("; ");
+  throw new coda.UserVisibleError(
+    `Push aborted: ${issues.length} reference(s) point at items missing from their target collection (${examples}). Push the referenced tables first, or turn off abortOnMissingReference to drop them.`,
+  );
+}
+
+export type RowPushStatus = "created" | "updated" | "skipped" | "failed";
+
+export type RowPushResult = {
+  rowId: string;
+  itemId: string;
+  slug: string;
+  status: RowPushStatus;
+  /** Live page URL, or "" when the item is not on the site after this push. */
+  url: string;
+  warnings: string[];
+};
+
+/**
+ * One entry per payload row, in payload order. Unchanged items are "skipped"
+ * and rows the mapping dropped are "failed". Without `written` every changed
+ * item counts as written; otherwise changed items missing from `written.ids`
+ * get `written.unwrittenStatus` and `written.unwrittenWarning`. Written and
+ * unchanged items that are not drafts get a URL from `urlBase`.
+ */
+export function buildRowResults(
+  rows: readonly NormalizedRow[],
+  mapping: MappingResult,
+  changes: ReadonlyMap<string, ItemChange>,
+  urlBase: ItemUrlBase | null,
+  written?: {
+    ids: ReadonlySet<string>;
+    unwrittenStatus: RowPushStatus;
+    unwrittenWarning: string;
+  },
+): RowPushResult[] {
+  const items = new Map(mapping.items.map((item) => [item.id, item]));
+  const skipReasons = new Map(
+    mapping.skippedRows.map((skipped) => [skipped.index, skipped.reason]),
+  );
+  return rows.map((row, index): RowPushResult => {
+    const rowId = row.id ?? "";
+    const skipReason = skipReasons.get(index);
+    const item = skipReason === undefined ? items.get(rowId) : undefined;
+    if (!item) {
+      return {
+        rowId,
+        itemId: "",
+        slug: "",
+        status: "failed",
+        url: "",
+        warnings: skipReason ? [skipReason] : [],
+      };
+    }
+    const warnings = [...(mapping.rowWarnings[rowId] ?? [])];
+    const change = changes.get(rowId) ?? "created";
+    let status: RowPushStatus = change === "unchanged" ? "skipped" : change;
+    let onSite = !item.draft;
+    if (status !== "skipped" && written && !written.ids.has(rowId)) {
+      status = written.unwrittenStatus;
+      warnings.push(written.unwrittenWarning);
+      onSite = false;
+    }
+    const url = onSite && urlBase ? buildItemUrl(urlBase, item.slug) : "";
+    return { rowId, itemId: item.id, slug: item.slug, status, url, warnings };
+  });
+}
+
+/**
+ * Look up where the collection's items live on the site. Items are already
+ * written when this runs, so a failed lookup becomes a warning, not an error.
+ */
+export async function loadRowUrlBase(
+  framer: Framer,
+  collection: { collectionId: string; collectionName: string },
+  warnings: string[],
+): Promise<ItemUrlBase | null> {
+  try {
+    const urlBase = await loadItemUrlBase(framer, collection.collectionId);
+    if (!urlBase.origin) {
+      warnings.push("The project has not been deployed yet, so rows have no url.");
+    } else if (!urlBase.pathPattern) {
+      warnings.push(
+        `"${collection.collectionName}" has no CMS detail page, so rows have no url.`,
+      );
+    }
+    return urlBase;
+  } catch (error) {
+    warnings.push(
+      `Could not look up item URLs: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+    return null;
+  }
+}
+
+export async function publishIfRequested(
+  framer: Framer,
+  publish?: boolean,
+): Promise<{ published: boolean; deploymentId?: string; changeCount?: number } | null> {
+  if (!publish) return null;
+  const { changeCount } = await getPendingChanges(framer);
+  if (changeCount === 0) {
+    return { published: false, changeCount };
+  }
+  // Not retried: a publish that failed late may still have made a deployment.
+  const publishResult = await framer.publish();
+  await deployDeployment(framer, publishResult.deployment.id);
+  return {
+    published: true,
+    deploymentId: publishResult.deployment.id,
+    changeCount,
+  };
+}
+
+export function buildDryRunResult(
+  collectionName: string,
+  existing: CollectionHandle | null,
+  rows: readonly NormalizedRow[],
+  mapping: MappingResult,
+  pruneMissing: boolean,
+  urlBase: ItemUrlBase | null,
+) {
+  const existingFields = existing?.fields ?? [];
+  const existingIds = existing?.itemIds ?? [];
+  const plannedFields = filterCompatibleFields(
+    mergeFieldsWithExistingFields(
+      mapping.fields,
+      existingFields,
+      mapping.renamedFieldIds,
+    ),
+  );
+  const fieldChanges = diffFields(plannedFields, existingFields);
+  const changes = diffItems(mapping.items, existingIds, existing?.itemHashes ?? {});
+  const counts = countItemChanges(changes);
+  const incomingIds = new Set(mapping.items.map((item) => item.id));
+  const itemsRemoved = pruneMissing
+    ? existingIds.filter((id) => !incomingIds.has(id)).length
+    : 0;
+
+  return {
+    collectionId: existing?.collectionId ?? "",
+    collectionName: existing?.collectionName ?? collectionName,
+    dryRun: true,
+    itemsAdded: 0,
+    itemsCreated: counts.created,
+    itemsUpdated: counts.updated,
+    itemsUnchanged: counts.unchanged,
+    itemsRemoved,
+    itemsSkipped: mapping.skippedCount,
+    fieldsSet: plannedFields.length,
+    fieldsAdded: fieldChanges.added,
+    fieldsRetyped: fieldChanges.retyped,
+    fieldsRemoved: fieldChanges.removed,
+    warnings: mapping.warnings,
+    missingReferences: mapping.referenceIssues,
+    rows: buildRowResults(rows, mapping, changes, urlBase),
+    published: false,
+    deploymentId: "",
+    batchesSucceeded: 0,
+    continuationToken: "",
+    message: `🔍 Dry run${existing ? "" : ` (collection "${collectionName}" would be created)`}: ${fieldChanges.added.length} field(s) added, ${fieldChanges.retyped.length} retyped, ${fieldChanges.removed.length} removed; ${counts.created} item(s) created, ${counts.updated} updated, ${counts.unchanged} unchanged, ${itemsRemoved} removed. Nothing was written.`,
+  };
+}
+
+export type TablePushInput = {
+  collectionName: string;
+  slugFieldId: string;
+  columns: CodaColumnInput[];
+  rows: NormalizedRow[];
+  referenceOverrides: Map<string, string>;
+  mappingConfig?: MappingConfig;
+  publishedColumnId?: string;
+  slugTemplate?: string;
+  sourceTableId?: string;
+  use12HourTime: boolean;
+  pruneMissing: boolean;
+  continuationToken?: string;
+  dryRun: boolean;
+  abortOnMissingReference: boolean;
+  /** Create the collection when no collection has this name, instead of failing. */
+  createIfMissing: boolean;
+  deadline: number;
+};
+
+/**
+ * Push one table payload through an open session: map, diff, prune, then write
+ * in batches until the deadline. Shared by the push actions and the CLI.
+ */
+export async function pushTable(framer: Framer, input: TablePushInput) {
+  const { collectionName, columns, continuationToken, pruneMissing } = input;
+  const retriesBefore = getRetryCount(framer);
+  const referenceMap = await discoverReferenceMap(
+    framer,
+    getLookupTableIds(columns),
+    input.referenceOverrides,
+  );
+  const mapping = buildFieldsAndItems({
+    columns,
+    rows: input.rows,
+    slugFieldId: input.slugFieldId,
+    referenceMap,
+    referenceTargets: await loadReferenceTargets(
+      framer,
+      getReferenceKeyFields(columns, referenceMap, input.mappingConfig),
+    ),
+    sourceTableId: input.sourceTableId,
+    use12HourTime: input.use12HourTime,
+    mapping: input.mappingConfig,
+    publishedFieldId: input.publishedColumnId,
+    slugTemplate: input.slugTemplate,
+  });
+  if (input.dryRun) {
+    const existing = await resolveTargetCollection(
+      framer,
+      collectionName,
+      input.createIfMissing,
+      true,
+    );
+    if (existing && !pruneMissing) {
+      mapping.warnings.push(
+        ...(await resolveExistingSlugCollisions(
+          framer,
+          existing,
+          mapping.items,
+          mapping.rowWarnings,
+        )),
+      );
+    }
+    if (existing) {
+      await loadItemHashes(framer, existing, {
+        deadline: input.deadline - HASH_SAVE_RESERVE_MS,
+      });
+    }
+    const urlBase = existing
+      ? await loadRowUrlBase(framer, existing, mapping.warnings)
+      : null;
+    return {
+      ...buildDryRunResult(
+        collectionName,
+        existing,
+        input.rows,
+        mapping,
+        pruneMissing,
+        urlBase,
+      ),
+      retries: getRetryCount(framer) - retriesBefore,
+    };
+  }
+  assertReferencesResolved(mapping, input.abortOnMissingReference);
+  const collection = (await resolveTargetCollection(
+    framer,
+    collectionName,
+    input.createIfMissing,
+    false,
+  ))!;
+  await saveCodaTableId(collection, input.sourceTableId);
+  if (!pruneMissing) {
+    mapping.warnings.push(
+      ...(await resolveExistingSlugCollisions(
+        framer,
+        collection,
+        mapping.items,
+        mapping.rowWarnings,
+      )),
+    );
+  }
+
+  const mergedFields = mergeFieldsWithExistingFields(
+    mapping.fields,
+    collection.fields,
+    mapping.renamedFieldIds,
+  );
+  const fieldChanges = diffFields(
+    filterCompatibleFields(mergedFields),
+    collection.fields,
+  );
+  const fieldsSet = await setCollectionFields(collection, mergedFields);
+
+  const offset = continuationToken
+    ? decodeContinuationToken(continuationToken, collection, mapping.items.length)
+    : 0;
+  const writeDeadline = input.deadline - HASH_SAVE_RESERVE_MS;
+  await loadItemHashes(framer, collection, { deadline: writeDeadline });
+  const changes = diffItems(
+    mapping.items,
+    collection.itemIds,
+    collection.itemHashes,
+  );
+  const itemsRemoved =
+    pruneMissing && offset === 0
+      ? await removeMissingItems(collection, mapping.items)
+      : 0;
+
+  const batchResult = await writeItemsInBatches(collection, mapping.items, {
+    offset,
+    deadline: writeDeadline,
+    skip: (item) => changes.get(item.id) === "unchanged",
+  });
+  mapping.warnings.push(
+    ...(await saveItemHashes(framer, collection, input.deadline)),
+  );
+  const urlBase = await loadRowUrlBase(framer, collection, mapping.warnings);
+
+  const written = countItemChanges(changes, batchResult.writtenIds);
+  const itemsUnchanged = countItemChanges(changes).unchanged;
+  const warnings = batchResult.error
+    ? [...mapping.warnings, batchResult.error]
+    : mapping.warnings;
+  const summary = `${written.created} created, ${written.updated} updated, ${itemsUnchanged} unchanged, ${itemsRemoved} removed`;
+  const result = {
+    collectionId: collection.collectionId,
+    collectionName: collection.collectionName,
+    itemsAdded: batchResult.written,
+    itemsCreated: written.created,
+    itemsUpdated: written.updated,
+    itemsUnchanged,
+    itemsRemoved,
+    itemsSkipped: mapping.skippedCount,
+    fieldsSet,
+    fieldsAdded: fieldChanges.added,
+    fieldsRetyped: fieldChanges.retyped,
+    fieldsRemoved: fieldChanges.removed,
+    dryRun: false,
+    warnings,
+    missingReferences: mapping.referenceIssues,
+    rows: buildRowResults(input.rows, mapping, changes, urlBase, {
+      ids: new Set(batchResult.writtenIds),
+      unwrittenStatus: batchResult.error ? "failed" : "skipped",
+      unwrittenWarning:
+        batchResult.error ??
+        (batchResult.nextOffset !== null
+          ? "Not written before the time limit. Run again with the continuation token."
+          : "Changed after the run this continuation token resumes. Push again to write it."),
+    }),
+    published: false,
+    deploymentId: "",
+    batchesSucceeded: batchResult.batchesSucceeded,
+    retries: getRetryCount(framer) - retriesBefore,
+  };
+
+  if (batchResult.nextOffset !== null) {
+    return {
+      ...result,
+      continuationToken: encodeContinuationToken(
+        collection,
+        batchResult.nextOffset,
+        mapping.items.length,
+      ),
+      message: `⏸ ${summary} in "${collection.collectionName}" before stopping. Run again with the continuation token to resume.`,
+    };
+  }
+
+  return {
+    ...result,
+    continuationToken: "",
+    message: collection.created
+      ? `✅ Collection created with ${written.created} row(s) in "${collection.collectionName}". Run PublishProject to deploy.`
+      : `✅ ${summary} in "${collection.collectionName}". Run PublishProject to deploy.`,
+  };
+}
+
+/**
+ * Multi-table tokens are "<position in push order>/<table token>"; the table
+ * token is empty when that table has not started yet.
+ */
+export function encodeTablesToken(position: number, tableToken = ""): string {
+  return `${position}/${tableToken}`;
+}
+
+export function decodeTablesToken(
+  token: string | undefined,
+  tableCount: number,
+): { position: number; tableToken?: string } {
+  if (!token) return { position: 0 };
+  const separator = token.indexOf("/");
+  const position = Number(token.slice(0, separator));
+  if (
+    separator <= 0 ||
+    !Number.isInteger(position) ||
+    position < 0 ||
+    position >= tableCount
+  ) {
+    throw new coda.UserVisibleError(
+      "The continuation token does not match these tables. Clear it to start a new push.",
+    );
+  }
+  return { position, tableToken: token.slice(separator + 1) || undefined };
+}
+
+export type RowPushInput = Omit<
+  TablePushInput,
+  "pruneMissing" | "continuationToken" | "deadline"
+>;
+
+/**
+ * Upsert a handful of rows without touching the collection's other items.
+ * Shared by PushRowToCollection and the webhook receiver.
+ */
+export async function pushRows(framer: Framer, input: RowPushInput) {
+  const { collectionName, columns, rows } = input;
+  const retriesBefore = getRetryCount(framer);
+  const referenceMap = await discoverReferenceMap(
+    framer,
+    getLookupTableIds(columns),
+    input.referenceOverrides,
+  );
+  const mapping = buildFieldsAndItems({
+    columns,
+    rows,
+    slugFieldId: input.slugFieldId,
+    referenceMap,
+    referenceTargets: await loadReferenceTargets(
+      framer,
+      getReferenceKeyFields(columns, referenceMap, input.mappingConfig),
+    ),
+    sourceTableId: input.sourceTableId,
+    use12HourTime: input.use12HourTime,
+    mapping: input.mappingConfig,
+    publishedFieldId: input.publishedColumnId,
+    slugTemplate: input.slugTemplate,
+  });
+  if (input.dryRun) {
+    const existing = await resolveTargetCollection(
+      framer,
+      collectionName,
+      input.createIfMissing,
+      true,
+    );
+    if (existing) {
+      mapping.warnings.push(
+        ...(await resolveExistingSlugCollisions(
+          framer,
+          existing,
+          mapping.items,
+          mapping.rowWarnings,
+        )),
+      );
+      await loadItemHashes(framer, existing, {
+        ids: mapping.items.map((item) => item.id),
+      });
+    }
+    const urlBase = existing
+      ? await loadRowUrlBase(framer, existing, mapping.warnings)
+      : null;
+    return {
+      ...buildDryRunResult(collectionName, existing, rows, mapping, false, urlBase),
+      retries: getRetryCount(framer) - retriesBefore,
+    };
+  }
+  assertReferencesResolved(mapping, input.abortOnMissingReference);
+  const collection = (await resolveTargetCollection(
+    framer,
+    collectionName,
+    input.createIfMissing,
+    false,
+  ))!;
+  await saveCodaTableId(collection, input.sourceTableId);
+  mapping.warnings.push(
+    ...(await resolveExistingSlugCollisions(
+      framer,
+      collection,
+      mapping.items,
+      mapping.rowWarnings,
+    )),
+  );
+
+  const mergedFields = mergeFieldsWithExistingFields(
+    mapping.fields,
+    collection.fields,
+    mapping.renamedFieldIds,
+  );
+  const fieldChanges = diffFields(
+    filterCompatibleFields(mergedFields),
+    collection.fields,
+  );
+  const fieldsSet = await setCollectionFields(collection, mergedFields);
+
+  await loadItemHashes(framer, collection, {
+    ids: mapping.items.map((item) => item.id),
+  });
+  const changes = diffItems(
+    mapping.items,
+    collection.itemIds,
+    collection.itemHashes,
+  );
+  const counts = countItemChanges(changes);
+  const itemsAdded = await writeItems(
+    collection,
+    mapping.items.filter((item) => changes.get(item.id) !== "unchanged"),
+  );
+  mapping.warnings.push(...(await saveItemHashes(framer, collection)));
+  const urlBase = await loadRowUrlBase(framer, collection, mapping.warnings);
+
+  const subject = rows.length === 1 ? "Row" : `${rows.length} rows`;
+  return {
+    collectionId: collection.collectionId,
+    collectionName: collection.collectionName,
+    itemsAdded,
+    itemsCreated: counts.created,
+    itemsUpdated: counts.updated,
+    itemsUnchanged: counts.unchanged,
+    itemsRemoved: 0,
+    itemsSkipped: mapping.skippedCount,
+    fieldsSet,
+    fieldsAdded: fieldChanges.added,
+    fieldsRetyped: fieldChanges.retyped,
+    fieldsRemoved: fieldChanges.removed,
+    dryRun: false,
+    warnings: mapping.warnings,
+    missingReferences: mapping.referenceIssues,
+    rows: buildRowResults(rows, mapping, changes, urlBase),
+    published: false,
+    deploymentId: "",
+    batchesSucceeded: itemsAdded > 0 ? 1 : 0,
+    continuationToken: "",
+    retries: getRetryCount(framer) - retriesBefore,
+    message: collection.created
+      ? `✅ Collection created and ${subject.toLowerCase()} pushed to "${collection.collectionName}". Run PublishProject to deploy.`
+      : itemsAdded === 0 && counts.unchanged > 0
+        ? `✅ ${subject} ${rows.length === 1 ? "is" : "are"} already up to date in "${collection.collectionName}".`
+        : `✅ ${subject} pushed to "${collection.collectionName}". Run PublishProject to deploy.`,
+  };
+}
@@ -0,0 +1,823 @@
+import * as coda from "@codahq/packs-sdk";
+import {
+  connect,
+  FramerAPIError,
+  isRetryableError,
+  type CollectionItem,
+  type ConnectOptions,
+  type Framer,
+  type Hostname,
+  type ManagedCollection,
+  type ManagedCollectionField,
+  type ManagedCollectionFieldInput,
+  type ManagedCollectionItemInput,
+} from "framer-api";
+import {
+  filterCompatibleFields,
+  fingerprintCollectionItem,
+  hashItemInput,
+  resolveSlugCollisions,
+  type ReferenceTarget,
+} from "./mapping";
+import { withRetry, type RetryStats } from "./retry";
+
+export const PLUGIN_KEYS = {
+  // Stored on each item: "<payload hash> <fingerprint>", see saveItemHashes.
+  ITEM_HASH: "codaItemHash",
+  // Same key name as plugin/src/data.ts. Whether values the plugin wrote are
+  // visible through the Server API is unverified, so do not count on it.
+  CODA_TABLE_ID: "codaTableId",
+} as const;
+
+/**
+ * A managed collection resolved once per formula execution. Every step of a
+ * push reads from and writes through this handle instead of reconnecting and
+ * re-listing the project's collections.
+ */
+export type CollectionHandle = {
+  collection: ManagedCollection;
+  collectionId: string;
+  collectionName: string;
+  created: boolean;
+  fields: ManagedCollectionField[];
+  itemIds: string[];
+  /**
+   * Content hash of each item as last written by this pack, keyed by item id.
+   * Empty until loadItemHashes runs; items edited since are left out.
+   */
+  itemHashes: Record<string, string>;
+  /** Items written in this execution whose hashes saveItemHashes still has to store. */
+  unsavedHashIds: Set<string>;
+  /**
+   * The collection's items as last read by getCollectionItems, reused until
+   * items are written or removed. Field changes keep it: slugs and hashes are
+   * compared with the items as they were before the push.
+   */
+  items: CollectionItem[] | null;
+  codaTableId: string | null;
+  /** Shared with the session the handle was loaded from. */
+  retryStats: RetryStats;
+};
+
+const sessionRetryStats = new WeakMap<Framer, RetryStats>();
+
+/** Pool exhaustion and timeouts clear up on their own; other errors do not. */
+function isTransientFramerError(error: unknown): boolean {
+  return (
+    isRetryableError(error) ||
+    (error instanceof FramerAPIError && error.code === "TIMEOUT")
+  );
+}
+
+/** Connecting is always safe to repeat, so dropped connections are retried too. */
+function isTransientConnectError(error: unknown): boolean {
+  return (
+    isTransientFramerError(error) ||
+    (error instanceof FramerAPIError &&
+      (error.code === "INTERNAL" || error.code === "PROJECT_CLOSED"))
+  );
+}
+
+function retrying<T>(
+  stats: RetryStats | undefined,
+  operation: () => Promise<T>,
+): Promise<T> {
+  return withRetry(operation, { isRetryable: isTransientFramerError, stats });
+}
+
+/**
+ * Run an idempotent Framer call for this session, retrying transient failures.
+ * Never use it for publish(), which would create a second deployment.
+ */
+export function withSessionRetry<T>(
+  framer: Framer,
+  operation: () => Promise<T>,
+): Promise<T> {
+  return retrying(sessionRetryStats.get(framer), operation);
+}
+
+/** Retries made so far in this session, for reporting in results. */
+export function getRetryCount(framer: Framer): number {
+  return sessionRetryStats.get(framer)?.retries ?? 0;
+}
+
+export async function openSession(
+  projectUrl: string,
+  apiKey: string,
+  options?: ConnectOptions,
+): Promise<Framer> {
+  const stats: RetryStats = { retries: 0 };
+  const framer = await withRetry(() => connect(projectUrl, apiKey, options), {
+    isRetryable: isTransientConnectError,
+    stats,
+  });
+  sessionRetryStats.set(framer, stats);
+  return framer;
+}
+
+async function loadHandle(
+  framer: Framer,
+  collection: ManagedCollection,
+  created: boolean,
+): Promise<CollectionHandle> {
+  const retryStats = sessionRetryStats.get(framer) ?? { retries: 0 };
+  const [fields, itemIds, codaTableId] = await retrying(
+    retryStats,
+    () =>
+      Promise.all([
+        collection.getFields(),
+        collection.getItemIds(),
+        collection.getPluginData(PLUGIN_KEYS.CODA_TABLE_ID),
+      ]),
+  );
+  return {
+    collection,
+    collectionId: collection.id,
+    collectionName: collection.name,
+    created,
+    fields,
+    itemIds,
+    itemHashes: {},
+    unsavedHashIds: new Set(),
+    items: null,
+    codaTableId,
+    retryStats,
+  };
+}
+
+/** Plugin data calls in flight at once, so large collections do not flood the connection. */
+const PLUGIN_DATA_CHUNK_SIZE = 25;
+
+/**
+ * Run `operation` on each item, one chunk at a time, retrying a failed chunk
+ * on its own. No new chunk starts once `deadline` has passed, so the results
+ * can cover only the first items.
+ */
+async function mapInChunks<T, R>(
+  framer: Framer,
+  items: readonly T[],
+  operation: (item: T) => Promise<R>,
+  deadline = Number.POSITIVE_INFINITY,
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let start = 0; start < items.length; start += PLUGIN_DATA_CHUNK_SIZE) {
+    if (Date.now() >= deadline) break;
+    const chunk = items.slice(start, start + PLUGIN_DATA_CHUNK_SIZE);
+    results.push(
+      ...(await withSessionRetry(framer, () => Promise.all(chunk.map(operation)))),
+    );
+  }
+  return results;
+}
+
+/**
+ * Read the hashes stored on the given items (all by default) into the handle.
+ * A hash only counts while the item's current fingerprint still matches the
+ * one saved with it, so items edited in Framer or by the plugin are rewritten.
+ * Items not read before `deadline` have no hash and are written again.
+ */
+export async function loadItemHashes(
+  framer: Framer,
+  handle: CollectionHandle,
+  options: { ids?: readonly string[]; deadline?: number } = {},
+): Promise<void> {
+  if (handle.itemIds.length === 0) return;
+  const wanted = options.ids ? new Set(options.ids) : null;
+  const items = (await getCollectionItems(framer, handle)).filter(
+    (item) => !wanted || wanted.has(item.id),
+  );
+  const stored = await mapInChunks(
+    framer,
+    items,
+    (item) => item.getPluginData(PLUGIN_KEYS.ITEM_HASH),
+    options.deadline,
+  );
+  stored.forEach((value, index) => {
+    const item = items[index]!;
+    const [hash, fingerprint] = (value ?? "").split(" ");
+    if (hash && fingerprint === fingerprintCollectionItem(item)) {
+      handle.itemHashes[item.id] = hash;
+    }
+  });
+}
+
+/**
+ * Time kept back from a push's deadline for saveItemHashes, so batch writes
+ * stop early enough for the hashes of what they wrote to be stored.
+ */
+export const HASH_SAVE_RESERVE_MS = 8_000;
+
+/**
+ * Store the hash of each item written in this execution on the item itself,
+ * next to a fingerprint of the item as Framer now holds it. The items are
+ * already written, so running out of time or failing is returned as a warning
+ * rather than thrown; the next push then simply rewrites those items.
+ */
+export async function saveItemHashes(
+  framer: Framer,
+  handle: CollectionHandle,
+  deadline?: number,
+): Promise<string[]> {
+  if (handle.unsavedHashIds.size === 0) return [];
+  try {
+    const items = (await getCollectionItems(framer, handle)).filter((item) =>
+      handle.unsavedHashIds.has(item.id),
+    );
+    await mapInChunks(
+      framer,
+      items,
+      async (item) => {
+        await item.setPluginData(
+          PLUGIN_KEYS.ITEM_HASH,
+          `${handle.itemHashes[item.id]} ${fingerprintCollectionItem(item)}`,
+        );
+        handle.unsavedHashIds.delete(item.id);
+      },
+      deadline,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return [
+      `Could not record item hashes, so the next push rewrites ${handle.unsavedHashIds.size} item(s): ${message}`,
+    ];
+  }
+  return handle.unsavedHashIds.size > 0
+    ? [
+        `Ran out of time recording item hashes, so the next push rewrites ${handle.unsavedHashIds.size} item(s).`,
+      ]
+    : [];
+}
+
+export async function saveCodaTableId(
+  handle: CollectionHandle,
+  codaTableId: string | undefined,
+): Promise<void> {
+  if (!codaTableId || handle.codaTableId === codaTableId) return;
+  await retrying(handle.retryStats, () =>
+    handle.collection.setPluginData(PLUGIN_KEYS.CODA_TABLE_ID, codaTableId),
+  );
+  handle.codaTableId = codaTableId;
+}
+
+/**
+ * Map each lookup's Coda table id to the collection that records it as its
+ * source. Entries in `overrides` win over discovered ones.
+ */
+export async function discoverReferenceMap(
+  framer: Framer,
+  tableIds: readonly string[],
+  overrides: ReadonlyMap<string, string>,
+): Promise<Map<string, string>> {
+  const referenceMap = new Map<string, string>();
+  if (tableIds.some((tableId) => !overrides.has(tableId))) {
+    const collections = await withSessionRetry(framer, () =>
+      framer.getManagedCollections(),
+    );
+    const sourceTableIds = await withSessionRetry(framer, () =>
+      Promise.all(
+        collections.map((collection) =>
+          collection.getPluginData(PLUGIN_KEYS.CODA_TABLE_ID),
+        ),
+      ),
+    );
+    collections.forEach((collection, index) => {
+      const tableId = sourceTableIds[index];
+      if (tableId && tableIds.includes(tableId)) {
+        referenceMap.set(tableId, collection.id);
+      }
+    });
+  }
+  for (const [tableId, collectionId] of overrides) {
+    referenceMap.set(tableId, collectionId);
+  }
+  return referenceMap;
+}
+
+/**
+ * Index the items of each referenced collection by id, slug and the given key
+ * fields. A collection that no longer exists gets an empty target, so every
+ * reference into it is reported as missing.
+ */
+export async function loadReferenceTargets(
+  framer: Framer,
+  keyFieldsByCollection: ReadonlyMap<string, readonly string[]>,
+): Promise<Map<string, ReferenceTarget>> {
+  const targets = new Map<string, ReferenceTarget>();
+  for (const [collectionId, keyFieldIds] of keyFieldsByCollection) {
+    const collection = await withSessionRetry(framer, () =>
+      framer.getCollection(collectionId),
+    );
+    const items = collection
+      ? await withSessionRetry(framer, () => collection.getItems())
+      : [];
+    const idsByFieldValue = new Map<string, Map<string, string>>();
+    for (const fieldId of keyFieldIds) {
+      const ids = new Map<string, string>();
+      for (const item of items) {
+        const value = item.fieldData[fieldId]?.value;
+        if (typeof value === "string" || typeof value === "number") {
+          ids.set(String(value), item.id);
+        }
+      }
+      idsByFieldValue.set(fieldId, ids);
+    }
+    targets.set(collectionId, {
+      itemIds: new Set(items.map((item) => item.id)),
+      idsBySlug: new Map(items.map((item) => [item.slug, item.id])),
+      idsByFieldValue,
+    });
+  }
+  return targets;
+}
+
+export async function findCollectionHandle(
+  framer: Framer,
+  collectionName: string,
+): Promise<CollectionHandle | null> {
+  const collections = await withSessionRetry(framer, () =>
+    framer.getManagedCollections(),
+  );
+  const existing = collections.find((item) => item.name === collectionName);
+  return existing ? await loadHandle(framer, existing, false) : null;
+}
+
+/**
+ * Look up an existing collection without creating one, so a misspelled name is
+ * reported instead of leaving a stray collection behind.
+ */
+export async function requireCollectionHandle(
+  framer: Framer,
+  collectionName: string,
+  hint = "",
+): Promise<CollectionHandle> {
+  const collections = await withSessionRetry(framer, () =>
+    framer.getManagedCollections(),
+  );
+  const existing = collections.find((item) => item.name === collectionName);
+  if (!existing) {
+    const names = collections.map((item) => `"${item.name}"`).join(", ");
+    throw new coda.UserVisibleError(
+      `Managed collection "${collectionName}" not found.${names ? ` Available collections: ${names}.` : ""}${hint ? ` ${hint}` : ""}`,
+    );
+  }
+  return await loadHandle(framer, existing, false);
+}
+
+export async function getOrCreateCollectionHandle(
+  framer: Framer,
+  collectionName: string,
+): Promise<CollectionHandle> {
+  const existing = await findCollectionHandle(framer, collectionName);
+  if (existing) return existing;
+  // Not retried: a create that timed out may still have made the collection.
+  const created = await framer.createManagedCollection(collectionName);
+  return await loadHandle(framer, created, true);
+}
+
+export async function getCollectionHandleById(
+  framer: Framer,
+  collectionId: string,
+): Promise<CollectionHandle> {
+  const collections = await withSessionRetry(framer, () =>
+    framer.getManagedCollections(),
+  );
+  const collection = collections.find((item) => item.id === collectionId);
+  if (!collection) {
+    throw new coda.UserVisibleError("Managed collection not found.");
+  }
+  return await loadHandle(framer, collection, false);
+}
+
+export async function setCollectionFields(
+  handle: CollectionHandle,
+  fields: ManagedCollectionFieldInput[],
+): Promise<number> {
+  const compatibleFields = filterCompatibleFields(fields);
+  await retrying(handle.retryStats, () =>
+    handle.collection.setFields(compatibleFields),
+  );
+  return compatibleFields.length;
+}
+
+export async function removeMissingItems(
+  handle: CollectionHandle,
+  items: ManagedCollectionItemInput[],
+): Promise<number> {
+  const incomingIds = new Set(items.map((item) => item.id));
+  const toRemove = handle.itemIds.filter((id) => !incomingIds.has(id));
+  if (toRemove.length > 0) {
+    await retrying(handle.retryStats, () => handle.collection.removeItems(toRemove));
+  }
+  handle.itemIds = handle.itemIds.filter((id) => incomingIds.has(id));
+  if (toRemove.length > 0) handle.items = null;
+  for (const id of toRemove) {
+    delete handle.itemHashes[id];
+    handle.unsavedHashIds.delete(id);
+  }
+  return toRemove.length;
+}
+
+/**
+ * Remove every item and field from a collection, leaving it empty for a
+ * rebuild. Returns the number of items and fields removed.
+ */
+export async function clearCollection(
+  handle: CollectionHandle,
+): Promise<{ itemsRemoved: number; fieldsRemoved: number }> {
+  const itemsRemoved = handle.itemIds.length;
+  const fieldsRemoved = handle.fields.length;
+  if (itemsRemoved > 0) {
+    const itemIds = handle.itemIds;
+    await retrying(handle.retryStats, () => handle.collection.removeItems(itemIds));
+  }
+  await retrying(handle.retryStats, () => handle.collection.setFields([]));
+  handle.itemIds = [];
+  handle.itemHashes = {};
+  handle.unsavedHashIds.clear();
+  handle.items = null;
+  handle.fields = [];
+  return { itemsRemoved, fieldsRemoved };
+}
+
+export type RemoveItemsResult = {
+  removedIds: string[];
+  notFound: string[];
+};
+
+/**
+ * Remove items named by item id (the Coda row id for pushed rows) or by slug.
+ * Slugs are only looked up when some identifier is not a known item id.
+ */
+export async function removeItemsByIdOrSlug(
+  framer: Framer,
+  handle: CollectionHandle,
+  identifiers: string[],
+): Promise<RemoveItemsResult> {
+  const knownIds = new Set(handle.itemIds);
+  const requested = [
+    ...new Set(identifiers.map((identifier) => identifier.trim()).filter(Boolean)),
+  ];
+  let idsBySlug = new Map<string, string>();
+  if (requested.some((identifier) => !knownIds.has(identifier))) {
+    const items = await getCollectionItems(framer, handle);
+    idsBySlug = new Map(items.map((item) => [item.slug, item.id]));
+  }
+
+  const toRemove = new Set<string>();
+  const notFound: string[] = [];
+  for (const identifier of requested) {
+    const id = knownIds.has(identifier) ? identifier : idsBySlug.get(identifier);
+    if (id) {
+      toRemove.add(id);
+    } else {
+      notFound.push(identifier);
+    }
+  }
+
+  const removedIds = [...toRemove];
+  if (removedIds.length > 0) {
+    await retrying(handle.retryStats, () => handle.collection.removeItems(removedIds));
+    handle.itemIds = handle.itemIds.filter((id) => !toRemove.has(id));
+    handle.items = null;
+    for (const id of removedIds) {
+      delete handle.itemHashes[id];
+      handle.unsavedHashIds.delete(id);
+    }
+  }
+  return { removedIds, notFound };
+}
+
+function trackWrittenItems(
+  handle: CollectionHandle,
+  items: ManagedCollectionItemInput[],
+): void {
+  const known = new Set(handle.itemIds);
+  handle.items = null;
+  for (const item of items) {
+    handle.itemHashes[item.id] = hashItemInput(item);
+    handle.unsavedHashIds.add(item.id);
+    if (!known.has(item.id)) {
+      handle.itemIds.push(item.id);
+      known.add(item.id);
+    }
+  }
+}
+
+export async function writeItems(
+  handle: CollectionHandle,
+  items: ManagedCollectionItemInput[],
+): Promise<number> {
+  if (items.length > 0) {
+    await retrying(handle.retryStats, () => handle.collection.addItems(items));
+    trackWrittenItems(handle, items);
+  }
+  return items.length;
+}
+
+export const MAX_BATCH_ITEMS = 100;
+export const MAX_BATCH_BYTES = 2_000_000;
+
+/**
+ * Split items into consecutive batches bounded by both item count and
+ * serialized size, so heavy rich text rows do not produce oversized requests.
+ * A single item larger than `maxBytes` still gets a batch of its own.
+ */
+export function chunkItems(
+  items: ManagedCollectionItemInput[],
+  maxItems = MAX_BATCH_ITEMS,
+  maxBytes = MAX_BATCH_BYTES,
+): ManagedCollectionItemInput[][] {
+  const batches: ManagedCollectionItemInput[][] = [];
+  let current: ManagedCollectionItemInput[] = [];
+  let currentBytes = 0;
+  for (const item of items) {
+    const size = JSON.stringify(item).length;
+    if (
+      current.length > 0 &&
+      (current.length >= maxItems || currentBytes + size > maxBytes)
+    ) {
+      batches.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(item);
+    currentBytes += size;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+export type BatchWriteResult = {
+  written: number;
+  writtenIds: string[];
+  batchesSucceeded: number;
+  batchesTotal: number;
+  /** Index of the first item not yet written, or null when every item was. */
+  nextOffset: number | null;
+  error?: string;
+};
+
+export async function writeItemsInBatches(
+  handle: CollectionHandle,
+  items: ManagedCollectionItemInput[],
+  options: {
+    offset?: number;
+    deadline?: number;
+    skip?: (item: ManagedCollectionItemInput) => boolean;
+  } = {},
+): Promise<BatchWriteResult> {
+  const { deadline, skip } = options;
+  const pending = items
+    .map((item, index) => ({ item, index }))
+    .slice(options.offset ?? 0)
+    .filter(({ item }) => !skip?.(item));
+  const batches = chunkItems(pending.map(({ item }) => item));
+  const writtenIds: string[] = [];
+  let batchesSucceeded = 0;
+
+  const stopAt = (error?: string): BatchWriteResult => ({
+    written: writtenIds.length,
+    writtenIds,
+    batchesSucceeded,
+    batchesTotal: batches.length,
+    nextOffset: pending[writtenIds.length]?.index ?? null,
+    ...(error ? { error } : {}),
+  });
+
+  for (const batch of batches) {
+    if (deadline !== undefined && batchesSucceeded > 0 && Date.now() >= deadline) {
+      return stopAt();
+    }
+    try {
+      await retrying(handle.retryStats, () => handle.collection.addItems(batch));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return stopAt(
+        `Batch ${batchesSucceeded + 1} of ${batches.length} failed: ${message}`,
+      );
+    }
+    trackWrittenItems(handle, batch);
+    writtenIds.push(...batch.map((item) => item.id));
+    batchesSucceeded += 1;
+  }
+
+  return stopAt();
+}
+
+/**
+ * Continuation tokens pin a resume point to the collection and payload size
+ * they were issued for, so a token from a different table is rejected.
+ */
+export function encodeContinuationToken(
+  handle: CollectionHandle,
+  offset: number,
+  total: number,
+): string {
+  return `${handle.collectionId}:${offset}:${total}`;
+}
+
+export function decodeContinuationToken(
+  token: string,
+  handle: CollectionHandle,
+  total: number,
+): number {
+  const [collectionId, rawOffset, rawTotal] = token.trim().split(":");
+  const offset = Number(rawOffset);
+  if (
+    collectionId !== handle.collectionId ||
+    Number(rawTotal) !== total ||
+    !Number.isInteger(offset) ||
+    offset < 0 ||
+    offset > total
+  ) {
+    throw new coda.UserVisibleError(
+      "The continuation token does not match this collection and rows payload. Clear it to start a new push.",
+    );
+  }
+  return offset;
+}
+
+/**
+ * The collection's items, read once and kept on the handle until a write or
+ * removal changes them.
+ */
+export async function getCollectionItems(
+  framer: Framer,
+  handle: CollectionHandle,
+): Promise<CollectionItem[]> {
+  if (handle.items) return handle.items;
+  const collection = await withSessionRetry(framer, () =>
+    framer.getCollection(handle.collectionId),
+  );
+  if (!collection) {
+    throw new coda.UserVisibleError("Managed collection not found.");
+  }
+  handle.items = await withSessionRetry(framer, () => collection.getItems());
+  return handle.items;
+}
+
+/**
+ * Suffix slugs that collide with items already in the collection that the
+ * push leaves in place. Items in `items` are about to be rewritten, so their
+ * current slugs do not count.
+ */
+export async function resolveExistingSlugCollisions(
+  framer: Framer,
+  handle: CollectionHandle,
+  items: ManagedCollectionItemInput[],
+  rowWarnings?: Record<string, string[]>,
+): Promise<string[]> {
+  if (handle.itemIds.length === 0) return [];
+  const incomingIds = new Set(items.map((item) => item.id));
+  const kept = (await getCollectionItems(framer, handle)).filter(
+    (item) => !incomingIds.has(item.id),
+  );
+  if (kept.length === 0) return [];
+  return resolveSlugCollisions(
+    items,
+    new Map(kept.map((item) => [item.slug, item.id])),
+    rowWarnings,
+  );
+}
+
+export type PendingChanges = {
+  added: string[];
+  removed: string[];
+  modified: string[];
+  changeCount: number;
+};
+
+export async function getPendingChanges(framer: Framer): Promise<PendingChanges> {
+  const changedPaths = await withSessionRetry(framer, () =>
+    framer.getChangedPaths(),
+  );
+  const added = changedPaths.added ?? [];
+  const removed = changedPaths.removed ?? [];
+  const modified = changedPaths.modified ?? [];
+  return {
+    added,
+    removed,
+    modified,
+    changeCount: added.length + removed.length + modified.length,
+  };
+}
+
+/**
+ * Promote a published deployment to the project's live domains. Publishing,
+ * deploying later and rolling back all go through this one path.
+ */
+export async function deployDeployment(
+  framer: Framer,
+  deploymentId: string,
+): Promise<string[]> {
+  // Deploying the same deployment twice leaves the same result, so it is retried.
+  const hostnames = await withSessionRetry(framer, () =>
+    framer.deploy(deploymentId),
+  );
+  return hostnames.map((hostname) => hostname.hostname);
+}
+
+export type DeploymentSummary = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  hostnames: string[];
+  isLive: boolean;
+};
+
+/**
+ * Only publish() and deploy() report which deployment a hostname serves, and
+ * the server API has nowhere project-wide to keep that. So the live flag is a
+ * best-effort guess: the deployment last updated closest to the production
+ * publish time, which is also the only one given the production hostname. It
+ * can be wrong when several deployments were updated around that time.
+ */
+export async function listDeployments(
+  framer: Framer,
+): Promise<DeploymentSummary[]> {
+  const [deployments, publishInfo] = await withSessionRetry(framer, () =>
+    Promise.all([framer.getDeployments(), framer.getPublishInfo()]),
+  );
+  const production = publishInfo.production;
+  let liveId: string | undefined;
+  if (production) {
+    let closest = Number.POSITIVE_INFINITY;
+    for (const deployment of deployments) {
+      const distance = Math.abs(
+        Date.parse(deployment.updatedAt) - toMilliseconds(production.deploymentTime),
+      );
+      if (distance < closest) {
+        closest = distance;
+        liveId = deployment.id;
+      }
+    }
+  }
+  const liveHostname = production ? hostnameFromUrl(production.url) : "";
+
+  return deployments
+    .map((deployment) => ({
+      id: deployment.id,
+      createdAt: deployment.createdAt,
+      updatedAt: deployment.updatedAt,
+      hostnames: deployment.id === liveId && liveHostname ? [liveHostname] : [],
+      isLive: deployment.id === liveId,
+    }))
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+/**
+ * `Publish.deploymentTime` is not documented as seconds or milliseconds, while
+ * `updatedAt` parses to milliseconds. A millisecond value below 1e11 would be
+ * a time in 1973, so such a value is taken as seconds.
+ */
+function toMilliseconds(time: number): number {
+  return time < 1e11 ? time * 1000 : time;
+}
+
+function hostnameFromUrl(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Where a collection's items appear on the live site: the production origin
+ * and the path of the collection's CMS detail page, such as "/blog/:slug".
+ * Either is "" when the project is not deployed or there is no detail page.
+ */
+export type ItemUrlBase = { origin: string; pathPattern: string };
+
+export async function loadItemUrlBase(
+  framer: Framer,
+  collectionId: string,
+): Promise<ItemUrlBase> {
+  const [publishInfo, pages] = await withSessionRetry(framer, () =>
+    Promise.all([
+      framer.getPublishInfo(),
+      framer.getNodesWithType("WebPageNode"),
+    ]),
+  );
+  const detailPage = pages.find(
+    (page) => page.collectionId === collectionId && page.path,
+  );
+  let origin = "";
+  try {
+    origin = publishInfo.production ? new URL(publishInfo.production.url).origin : "";
+  } catch {
+    // An unparseable production URL leaves the items without a URL.
+  }
+  return { origin, pathPattern: detailPage?.path ?? "" };
+}
+
+export function buildItemUrl(base: ItemUrlBase, slug: string): string {
+  if (!base.origin || !base.pathPattern || !slug) return "";
+  return `${base.origin}${base.pathPattern.replace(/:slug\b/g, encodeURIComponent(slug))}`;
+}
+
+export function selectPreviewHostname(hostnames: readonly Hostname[]): string {
+  const preview =
+    hostnames.find((hostname) => hostname.type === "version") ?? hostnames[0];
+  return preview?.hostname ?? "";
+}
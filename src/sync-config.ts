@@ -0,0 +1,127 @@
+import { readFile } from "node:fs/promises";
+import {
+  checkTableOptions,
+  normalizeColumns,
+  parseMappingConfig,
+  type CodaColumnInput,
+  type MappingConfig,
+  type ReferenceMapEntry,
+} from "./mapping";
+
+export type SyncTableConfig = {
+  /** Coda table id or name. */
+  tableId: string;
+  collectionName: string;
+  slugFieldId: string;
+  slugTemplate?: string;
+  mapping?: unknown;
+  publishedFieldId?: string;
+  pruneMissing?: boolean;
+  /** Create the collection on the first sync; without it a missing collection is an error. */
+  createIfMissing?: boolean;
+};
+
+export type SyncConfig = {
+  coda: {
+    docId: string;
+    /** Falls back to the CODA_API_KEY environment variable. */
+    apiKey?: string;
+    /** Stand-in for https://coda.io/apis/v1, e.g. a local test server. */
+    baseUrl?: string;
+  };
+  framer: {
+    projectUrl: string;
+    /** Falls back to the FRAMER_API_KEY environment variable. */
+    apiKey?: string;
+    /** Stand-in for the Framer Server API WebSocket endpoint. */
+    serverUrl?: string;
+  };
+  tables: SyncTableConfig[];
+  referenceMap?: ReferenceMapEntry[];
+  use12HourTime?: boolean;
+  abortOnMissingReference?: boolean;
+  publish?: boolean;
+  webhook?: {
+    port?: number;
+    /** Falls back to the WEBHOOK_SECRET environment variable. */
+    secret?: string;
+    /** How long to collect events for a table before pushing them. */
+    batchWindowMs?: number;
+  };
+};
+
+/** A configured table with its columns read and its options validated. */
+export type PreparedTable = {
+  collectionName: string;
+  slugFieldId: string;
+  columns: CodaColumnInput[];
+  mappingConfig?: MappingConfig;
+  publishedColumnId?: string;
+  slugTemplate?: string;
+  sourceTableId: string;
+  createIfMissing: boolean;
+};
+
+export async function readSyncConfig(path: string): Promise<SyncConfig> {
+  let config: SyncConfig;
+  try {
+    config = JSON.parse(await readFile(path, "utf8")) as SyncConfig;
+  } catch (error) {
+    throw new Error(
+      `Could not read config "${path}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!config?.coda?.docId) {
+    throw new Error("Config needs coda.docId.");
+  }
+  if (!config.framer?.projectUrl) {
+    throw new Error("Config needs framer.projectUrl.");
+  }
+  if (!Array.isArray(config.tables) || config.tables.length === 0) {
+    throw new Error("Config needs at least one entry in tables.");
+  }
+  config.tables.forEach((table, index) => {
+    if (!table?.tableId || !table.collectionName || !table.slugFieldId) {
+      throw new Error(
+        `Table ${index + 1} in the config needs tableId, collectionName and slugFieldId.`,
+      );
+    }
+  });
+  return config;
+}
+
+export function requireKey(value: string | undefined, envName: string, label: string): string {
+  const key = value || process.env[envName];
+  if (!key) {
+    throw new Error(`Set ${label} in the config or the ${envName} environment variable.`);
+  }
+  return key;
+}
+
+export function prepareTable(
+  tableConfig: SyncTableConfig,
+  table: { tableId: string; tableName: string; columns: CodaColumnInput[] },
+): PreparedTable {
+  const columns = normalizeColumns(table.columns);
+  const { config: mappingConfig, errors } = tableConfig.mapping
+    ? parseMappingConfig(tableConfig.mapping, columns)
+    : { config: undefined, errors: [] };
+  if (errors.length > 0) {
+    throw new Error(`Invalid mapping for "${table.tableName}": ${errors.join(" ")}`);
+  }
+  const optionErrors = checkTableOptions(tableConfig, columns);
+  if (optionErrors.length > 0) {
+    throw new Error(`Invalid options for "${table.tableName}": ${optionErrors.join(" ")}`);
+  }
+  const { publishedFieldId, slugTemplate } = tableConfig;
+  return {
+    collectionName: tableConfig.collectionName,
+    slugFieldId: tableConfig.slugFieldId,
+    columns,
+    mappingConfig,
+    publishedColumnId: publishedFieldId,
+    slugTemplate,
+    sourceTableId: table.tableId,
+    createIfMissing: Boolean(tableConfig.createIfMissing),
+  };
+}
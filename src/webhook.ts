@@ -0,0 +1,323 @@
+import { timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import {
+  fetchCodaColumns,
+  fetchCodaRows,
+  fetchCodaTableInfo,
+  type CodaApiOptions,
+} from "./coda-api";
+import { buildReferenceMap } from "./mapping";
+import { publishIfRequested, pushRows } from "./push";
+import type { RetryStats } from "./retry";
+import {
+  findCollectionHandle,
+  getRetryCount,
+  openSession,
+  removeItemsByIdOrSlug,
+} from "./session";
+import { prepareTable, requireKey, type SyncConfig, type SyncTableConfig } from "./sync-config";
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_BATCH_WINDOW_MS = 5_000;
+const MAX_BODY_BYTES = 1_000_000;
+
+export type WebhookEvent = {
+  type: "changed" | "deleted";
+  tableId: string;
+  rowIds: string[];
+};
+
+type WebhookTable = {
+  tableId: string;
+  tableName: string;
+  config: SyncTableConfig;
+};
+
+/** Row ids waiting for a table's batch window to close. */
+type PendingBatch = {
+  changed: Set<string>;
+  deleted: Set<string>;
+  timer: NodeJS.Timeout;
+};
+
+const EVENT_TYPES: Record<string, WebhookEvent["type"]> = {
+  added: "changed",
+  changed: "changed",
+  updated: "changed",
+  deleted: "deleted",
+  removed: "deleted",
+};
+
+/**
+ * Read the events in a webhook body. Each event is an object such as
+ * `{"event": "rowChanged", "tableId": "grid-…", "rowId": "i-…"}` (or `rowIds`
+ * for several rows); the body may also be an array of them.
+ */
+export function parseWebhookEvents(body: unknown): {
+  events: WebhookEvent[];
+  errors: string[];
+} {
+  const entries = Array.isArray(body) ? body : [body];
+  const events: WebhookEvent[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const label = entries.length > 1 ? `Event ${index + 1}` : "Event";
+    if (!entry || typeof entry !== "object") {
+      errors.push(`${label} must be an object.`);
+      return;
+    }
+    const { event, tableId, rowId, rowIds } = entry as Record<string, unknown>;
+    // "rowChanged", "row changed" and "row_changed" all name the same event.
+    const eventName = String(event ?? "").toLowerCase().replace(/[^a-z]/g, "").replace(/^row/, "");
+    const type = EVENT_TYPES[eventName];
+    if (!type) {
+      errors.push(`${label} has unknown event "${String(event ?? "")}"; use rowAdded, rowChanged or rowDeleted.`);
+      return;
+    }
+    if (typeof tableId !== "string" || !tableId) {
+      errors.push(`${label} needs a tableId.`);
+      return;
+    }
+    const ids = (Array.isArray(rowIds) ? rowIds : [rowId]).filter(
+      (id): id is string => typeof id === "string" && id.length > 0,
+    );
+    if (ids.length === 0) {
+      errors.push(`${label} needs a rowId or rowIds.`);
+      return;
+    }
+    events.push({ type, tableId, rowIds: ids });
+  });
+  return { events, errors };
+}
+
+function secretMatches(request: IncomingMessage, secret: string): boolean {
+  const authorization = request.headers.authorization ?? "";
+  const provided = authorization.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length)
+    : String(request.headers["x-webhook-secret"] ?? "");
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body is too large.");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Listen for Coda automation webhooks, batch events per table for a short
+ * window, then push the changed rows and remove the deleted ones. Resolves once
+ * the server has shut down on SIGINT or SIGTERM and pending batches are pushed.
+ */
+export async function serveWebhooks(
+  config: SyncConfig,
+  options: { port?: number; publish: boolean },
+): Promise<void> {
+  const codaOptions: CodaApiOptions = {
+    apiKey: requireKey(config.coda.apiKey, "CODA_API_KEY", "coda.apiKey"),
+    baseUrl: config.coda.baseUrl,
+  };
+  const framerApiKey = requireKey(config.framer.apiKey, "FRAMER_API_KEY", "framer.apiKey");
+  const secret = config.webhook?.secret || process.env.WEBHOOK_SECRET;
+  const batchWindowMs = config.webhook?.batchWindowMs ?? DEFAULT_BATCH_WINDOW_MS;
+  const port = options.port ?? config.webhook?.port ?? DEFAULT_PORT;
+  const referenceOverrides = buildReferenceMap(config.referenceMap);
+  const { docId } = config.coda;
+
+  // Webhooks may name a table by id or by the name used in the config.
+  const tables = new Map<string, WebhookTable>();
+  for (const tableConfig of config.tables) {
+    const info = await fetchCodaTableInfo(docId, tableConfig.tableId, codaOptions);
+    const table = { tableId: info.id, tableName: info.name, config: tableConfig };
+    tables.set(info.id, table);
+    tables.set(tableConfig.tableId, table);
+  }
+
+  async function pushBatch(
+    table: WebhookTable,
+    changedIds: string[],
+    deletedIds: string[],
+  ): Promise<void> {
+    const codaRetries: RetryStats = { retries: 0 };
+    const batchCodaOptions = { ...codaOptions, retryStats: codaRetries };
+    const columns = await fetchCodaColumns(docId, table.tableId, batchCodaOptions);
+    const prepared = prepareTable(table.config, { ...table, columns });
+    const rows = await fetchCodaRows(docId, table.tableId, changedIds, batchCodaOptions);
+    // Rows that changed and were then deleted before the batch closed are gone.
+    const fetchedIds = new Set(rows.map((row) => row.id));
+    const removals = [...deletedIds, ...changedIds.filter((id) => !fetchedIds.has(id))];
+
+    using framer = await openSession(config.framer.projectUrl, framerApiKey, {
+      serverUrl: config.framer.serverUrl,
+    });
+    let written = 0;
+    if (rows.length > 0) {
+      const result = await pushRows(framer, {
+        ...prepared,
+        rows,
+        referenceOverrides,
+        use12HourTime: Boolean(config.use12HourTime),
+        dryRun: false,
+        abortOnMissingReference: Boolean(config.abortOnMissingReference),
+      });
+      written = result.itemsAdded;
+      console.log(result.message);
+      for (const warning of result.warnings) {
+        console.warn(`  warning: ${warning}`);
+      }
+    }
+
+    let removed = 0;
+    if (removals.length > 0) {
+      const handle = await findCollectionHandle(framer, prepared.collectionName);
+      const knownIds = new Set(handle?.itemIds ?? []);
+      const ids = removals.filter((id) => knownIds.has(id));
+      if (handle && ids.length > 0) {
+        const { removedIds } = await removeItemsByIdOrSlug(framer, handle, ids);
+        removed = removedIds.length;
+      }
+      console.log(`Removed ${removed} item(s) from "${prepared.collectionName}".`);
+    }
+
+    if (options.publish && written + removed > 0) {
+      const published = await publishIfRequested(framer, true);
+      if (published?.published) {
+        console.log(`Published and deployed ${published.changeCount} change(s).`);
+      }
+    }
+    const retries = codaRetries.retries + getRetryCount(framer);
+    if (retries > 0) {
+      console.log(`Retried ${retries} call(s) after transient failures.`);
+    }
+  }
+
+  // Pushes run one at a time so batches for related tables never interleave.
+  const pending = new Map<string, PendingBatch>();
+  let queue = Promise.resolve();
+
+  function flush(tableId: string): void {
+    const batch = pending.get(tableId);
+    const table = tables.get(tableId);
+    if (!batch || !table) return;
+    clearTimeout(batch.timer);
+    pending.delete(tableId);
+    const changedIds = [...batch.changed];
+    const deletedIds = [...batch.deleted];
+    queue = queue
+      .then(() => pushBatch(table, changedIds, deletedIds))
+      .catch((error: unknown) => {
+        console.error(
+          `Push for "${table.tableName}" failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+  }
+
+  function enqueue(event: WebhookEvent, table: WebhookTable): void {
+    let batch = pending.get(table.tableId);
+    if (!batch) {
+      batch = {
+        changed: new Set(),
+        deleted: new Set(),
+        timer: setTimeout(() => flush(table.tableId), batchWindowMs),
+      };
+      pending.set(table.tableId, batch);
+    }
+    for (const rowId of event.rowIds) {
+      if (event.type === "deleted") {
+        batch.changed.delete(rowId);
+        batch.deleted.add(rowId);
+      } else {
+        batch.deleted.delete(rowId);
+        batch.changed.add(rowId);
+      }
+    }
+  }
+
+  async function handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<void> {
+    if (request.method === "GET" && request.url === "/health") {
+      sendJson(response, 200, { ok: true, pendingTables: pending.size });
+      return;
+    }
+    if (request.method !== "POST") {
+      sendJson(response, 405, { error: "Send webhook events with POST." });
+      return;
+    }
+    if (secret && !secretMatches(request, secret)) {
+      sendJson(response, 401, { error: "Missing or wrong webhook secret." });
+      return;
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(request));
+    } catch (error) {
+      sendJson(response, 400, {
+        error: error instanceof SyntaxError ? "Body must be JSON." : (error as Error).message,
+      });
+      return;
+    }
+    const { events, errors } = parseWebhookEvents(body);
+    for (const event of events) {
+      if (!tables.has(event.tableId)) {
+        errors.push(`Table "${event.tableId}" is not in the sync config.`);
+      }
+    }
+    if (errors.length > 0) {
+      sendJson(response, 400, { error: errors.join(" ") });
+      return;
+    }
+    for (const event of events) {
+      enqueue(event, tables.get(event.tableId)!);
+    }
+    sendJson(response, 202, { accepted: events.length });
+  }
+
+  const server = createServer((request, response) => {
+    handleRequest(request, response).catch((error: unknown) => {
+      console.error(error);
+      if (!response.headersSent) sendJson(response, 500, { error: "Internal error." });
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  console.log(
+    `Listening for Coda webhooks on port ${port} (${config.tables.length} table(s), ${batchWindowMs} ms batch window).`,
+  );
+  if (!secret) {
+    console.warn("warning: no webhook secret is set, so anyone who can reach this port can trigger pushes.");
+  }
+
+  await new Promise<void>((resolve) => {
+    const shutDown = () => {
+      process.off("SIGINT", shutDown);
+      process.off("SIGTERM", shutDown);
+      console.log("Shutting down; pushing pending batches.");
+      server.close();
+      for (const tableId of [...pending.keys()]) flush(tableId);
+      queue.then(resolve);
+    };
+    process.on("SIGINT", shutDown);
+    process.on("SIGTERM", shutDown);
+  });
+}
@@ -0,0 +1,309 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ManagedCollectionItemInput } from "framer-api";
+import {
+  buildFieldsAndItems,
+  checkTableOptions,
+  diffItems,
+  fingerprintCollectionItem,
+  hashItemInput,
+  orderByLookupDependencies,
+  parseMappingConfig,
+  resolveSlugCollisions,
+  slugify,
+  type CodaColumnInput,
+} from "../src/mapping";
+
+function column(
+  id: string,
+  type: string,
+  extra: Partial<CodaColumnInput["format"]> = {},
+): CodaColumnInput {
+  return { id, name: id.replace(/^c-/, ""), format: { type, ...extra } };
+}
+
+function item(id: string, title: string, draft = false): ManagedCollectionItemInput {
+  return { id, slug: id, draft, fieldData: { title: { type: "string", value: title } } };
+}
+
+describe("hashItemInput", () => {
+  it("ignores key order", () => {
+    const first: ManagedCollectionItemInput = {
+      id: "a",
+      slug: "a",
+      fieldData: {
+        title: { type: "string", value: "Hello" },
+        count: { type: "number", value: 1 },
+      },
+    };
+    const second: ManagedCollectionItemInput = {
+      id: "a",
+      slug: "a",
+      fieldData: {
+        count: { type: "number", value: 1 },
+        title: { type: "string", value: "Hello" },
+      },
+    };
+    assert.equal(hashItemInput(first), hashItemInput(second));
+  });
+
+  it("changes with values, slug and draft state", () => {
+    const base = hashItemInput(item("a", "Hello"));
+    assert.notEqual(hashItemInput(item("a", "Hello!")), base);
+    assert.notEqual(hashItemInput({ ...item("a", "Hello"), slug: "b" }), base);
+    assert.notEqual(hashItemInput(item("a", "Hello", true)), base);
+  });
+});
+
+describe("diffItems", () => {
+  it("classifies items as created, updated or unchanged", () => {
+    const unchanged = item("same", "Same");
+    const changes = diffItems(
+      [item("new", "New"), item("edited", "After"), unchanged],
+      ["edited", "same", "removed"],
+      { edited: hashItemInput(item("edited", "Before")), same: hashItemInput(unchanged) },
+    );
+    assert.deepEqual(Object.fromEntries(changes), {
+      new: "created",
+      edited: "updated",
+      same: "unchanged",
+    });
+  });
+
+  it("treats an existing item without a stored hash as updated", () => {
+    const changes = diffItems([item("a", "A")], ["a"], {});
+    assert.equal(changes.get("a"), "updated");
+  });
+});
+
+describe("fingerprintCollectionItem", () => {
+  const stored = {
+    slug: "post",
+    draft: false,
+    fieldData: {
+      title: { type: "string", value: "Hello" },
+      image: { type: "image", value: { id: "asset-1", url: "https://cdn/a.png", altText: "A" } },
+    },
+  };
+
+  it("is stable for the same item", () => {
+    assert.equal(
+      fingerprintCollectionItem(stored),
+      fingerprintCollectionItem(structuredClone(stored)),
+    );
+  });
+
+  it("changes when the item is edited in Framer", () => {
+    const edited = structuredClone(stored);
+    edited.fieldData.title.value = "Edited";
+    assert.notEqual(fingerprintCollectionItem(edited), fingerprintCollectionItem(stored));
+    assert.notEqual(
+      fingerprintCollectionItem({ ...stored, draft: true }),
+      fingerprintCollectionItem(stored),
+    );
+  });
+});
+
+describe("parseMappingConfig", () => {
+  const columns = [
+    column("c-title", "text"),
+    column("c-price", "currency"),
+    column("c-tags", "lookup", { isArray: true, table: { id: "grid-tags" } }),
+    column("c-author", "lookup", { table: { id: "grid-authors" } }),
+    column("c-notes", "text"),
+  ];
+
+  it("accepts valid overrides", () => {
+    const { config, errors } = parseMappingConfig(
+      {
+        "c-title": { name: "Headline", fieldId: "headline" },
+        "c-price": { type: "string" },
+        "c-author": { keyFieldId: "name" },
+        "c-notes": { exclude: true },
+      },
+      columns,
+    );
+    assert.deepEqual(errors, []);
+    assert.equal(config["c-title"]?.fieldId, "headline");
+  });
+
+  it("rejects unknown columns, options and types", () => {
+    const { errors } = parseMappingConfig(
+      {
+        "c-missing": { name: "x" },
+        "c-title": { type: "spreadsheet", colour: "red" },
+      },
+      columns,
+    );
+    assert.equal(errors.length, 3);
+    assert.match(errors.join("\n"), /"c-missing" is not in the columns payload/);
+    assert.match(errors.join("\n"), /unknown option\(s\) colour/);
+    assert.match(errors.join("\n"), /type "spreadsheet" is not supported/);
+  });
+
+  it("rejects types a column cannot convert to without losing values", () => {
+    const { errors } = parseMappingConfig(
+      {
+        "c-title": { type: "number" },
+        "c-tags": { type: "image" },
+        "c-author": { type: "boolean" },
+      },
+      columns,
+    );
+    assert.equal(errors.length, 3);
+    assert.match(errors[1] ?? "", /a multi-value lookup column cannot be mapped to image/);
+  });
+
+  it("rejects contradictory and clashing overrides", () => {
+    const { errors } = parseMappingConfig(
+      {
+        "c-notes": { exclude: true, name: "Notes" },
+        "c-title": { keyFieldId: "name", fieldId: "shared" },
+        "c-price": { fieldId: "shared" },
+      },
+      columns,
+    );
+    assert.match(errors.join("\n"), /excluded column cannot also set/);
+    assert.match(errors.join("\n"), /keyFieldId only applies to lookup columns/);
+    assert.match(errors.join("\n"), /Field id "shared" is used by both/);
+  });
+
+  it("rejects a value that is not an object", () => {
+    assert.equal(parseMappingConfig([], columns).errors.length, 1);
+  });
+});
+
+describe("buildFieldsAndItems with a mapping", () => {
+  it("renames, re-ids and excludes columns", () => {
+    const columns = [column("c-title", "text"), column("c-notes", "text")];
+    const { fields, items } = buildFieldsAndItems({
+      columns,
+      rows: [{ id: "i-1", values: { "c-title": "Hello", "c-notes": "secret" } }],
+      slugFieldId: "c-title",
+      referenceMap: new Map(),
+      mapping: {
+        "c-title": { name: "Headline", fieldId: "headline" },
+        "c-notes": { exclude: true },
+      },
+    });
+    assert.deepEqual(
+      fields.map((field) => [field.id, field.name]),
+      [["headline", "Headline"]],
+    );
+    assert.deepEqual(Object.keys(items[0]?.fieldData ?? {}), ["headline"]);
+  });
+});
+
+describe("slugify", () => {
+  it("folds accents, lowercases and collapses punctuation", () => {
+    assert.equal(slugify("  Crème Brûlée: The Recipe!  "), "creme-brulee-the-recipe");
+    assert.equal(slugify("Ünïcode & 日本語 2024"), "unicode-日本語-2024");
+    assert.equal(slugify("---"), "");
+  });
+});
+
+describe("resolveSlugCollisions", () => {
+  function slugs(...values: string[]): ManagedCollectionItemInput[] {
+    return values.map((slug, index) => ({ id: `r-${index}`, slug, fieldData: {} }));
+  }
+
+  it("suffixes duplicates in row order and reports each one", () => {
+    const items = slugs("a", "a", "a");
+    const rowWarnings: Record<string, string[]> = {};
+    const warnings = resolveSlugCollisions(items, undefined, rowWarnings);
+    assert.deepEqual(items.map((entry) => entry.slug), ["a", "a-2", "a-3"]);
+    assert.equal(warnings.length, 2);
+    assert.deepEqual(Object.keys(rowWarnings), ["r-1", "r-2"]);
+  });
+
+  it("never gives a suffix that is another row's own slug", () => {
+    const items = slugs("a", "a", "a-2");
+    resolveSlugCollisions(items);
+    assert.deepEqual(items.map((entry) => entry.slug), ["a", "a-3", "a-2"]);
+  });
+
+  it("gives the same slugs whatever the row order", () => {
+    const forward = slugs("a", "a", "a-2");
+    const reversed = slugs("a-2", "a", "a");
+    resolveSlugCollisions(forward);
+    resolveSlugCollisions(reversed);
+    assert.equal(forward.find((entry) => entry.id === "r-2")?.slug, "a-2");
+    assert.equal(reversed.find((entry) => entry.id === "r-0")?.slug, "a-2");
+  });
+
+  it("respects slugs taken by other items but not the item's own", () => {
+    const items = slugs("a", "b");
+    resolveSlugCollisions(
+      items,
+      new Map([
+        ["a", "existing"],
+        ["b", "r-1"],
+      ]),
+    );
+    assert.deepEqual(items.map((entry) => entry.slug), ["a-2", "b"]);
+  });
+});
+
+describe("slug templates", () => {
+  const columns = [column("c-title", "text"), column("c-date", "date")];
+
+  it("builds slugs from several columns", () => {
+    const { items } = buildFieldsAndItems({
+      columns,
+      rows: [{ id: "i-1", values: { "c-title": "Hello World", "c-date": "2024-05-01T10:00:00Z" } }],
+      slugFieldId: "c-title",
+      referenceMap: new Map(),
+      slugTemplate: "{title}-{c-date}",
+    });
+    assert.equal(items[0]?.slug, "hello-world-2024-05-01");
+  });
+
+  it("reports unknown template columns and published columns", () => {
+    assert.deepEqual(checkTableOptions({ slugTemplate: "{title}-{Author}" }, columns), [
+      "Slug template refers to unknown column(s): Author.",
+    ]);
+    assert.equal(checkTableOptions({ publishedFieldId: "c-live" }, columns).length, 1);
+    assert.deepEqual(checkTableOptions({ publishedFieldId: "c-title", slugTemplate: "{title}" }, columns), []);
+  });
+});
+
+describe("orderByLookupDependencies", () => {
+  const lookup = (tableId?: string) =>
+    column(`c-${tableId ?? "unknown"}`, "lookup", tableId ? { table: { id: tableId } } : {});
+
+  it("puts referenced tables first and keeps input order otherwise", () => {
+    const result = orderByLookupDependencies([
+      { tableId: "posts", columns: [lookup("authors"), lookup("tags")] },
+      { tableId: "tags", columns: [] },
+      { tableId: "authors", columns: [lookup("tags")] },
+    ]);
+    assert.deepEqual(result, { order: [1, 2, 0], cyclic: [], unlinked: [] });
+  });
+
+  it("ignores lookups into the table itself and into tables not pushed", () => {
+    const result = orderByLookupDependencies([
+      { tableId: "pages", columns: [lookup("pages"), lookup("elsewhere")] },
+      { tableId: "other", columns: [] },
+    ]);
+    assert.deepEqual(result.order, [0, 1]);
+  });
+
+  it("reports tables in a cycle and pushes them last in input order", () => {
+    const result = orderByLookupDependencies([
+      { tableId: "a", columns: [lookup("b")] },
+      { tableId: "b", columns: [lookup("a")] },
+      { tableId: "c", columns: [] },
+    ]);
+    assert.deepEqual(result, { order: [2, 0, 1], cyclic: [0, 1], unlinked: [] });
+  });
+
+  it("reports tables whose place could only be guessed", () => {
+    const result = orderByLookupDependencies([
+      { columns: [] },
+      { tableId: "b", columns: [lookup()] },
+      { tableId: "c", columns: [] },
+    ]);
+    assert.deepEqual(result.unlinked, [0, 1]);
+    assert.deepEqual(orderByLookupDependencies([{ columns: [] }]).unlinked, []);
+  });
+});
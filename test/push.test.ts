@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeTablesToken, encodeTablesToken } from "../src/push";
+
+describe("multi-table continuation tokens", () => {
+  it("round-trips the table position and the table's own token", () => {
+    assert.deepEqual(decodeTablesToken(encodeTablesToken(2, "c1:100:450"), 3), {
+      position: 2,
+      tableToken: "c1:100:450",
+    });
+    assert.deepEqual(decodeTablesToken(encodeTablesToken(1), 3), {
+      position: 1,
+      tableToken: undefined,
+    });
+  });
+
+  it("starts at the first table without a token", () => {
+    assert.deepEqual(decodeTablesToken(undefined, 3), { position: 0 });
+    assert.deepEqual(decodeTablesToken("", 3), { position: 0 });
+  });
+
+  it("rejects tokens that do not fit the tables", () => {
+    for (const token of ["3/", "-1/", "x/", "/c1:0:1", "c1:100:450"]) {
+      assert.throws(() => decodeTablesToken(token, 3), /does not match these tables/, token);
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isRetryableStatus, parseRetryAfter, withRetry, type RetryStats } from "../src/retry";
+
+function failing(times: number, error: () => Error = () => new Error("busy")) {
+  let calls = 0;
+  const operation = async () => {
+    calls += 1;
+    if (calls <= times) throw error();
+    return "done";
+  };
+  return { operation, calls: () => calls };
+}
+
+describe("withRetry", () => {
+  it("retries transient failures and counts the retries", async () => {
+    const { operation, calls } = failing(2);
+    const stats: RetryStats = { retries: 0 };
+    assert.equal(
+      await withRetry(operation, { isRetryable: () => true, stats, baseDelayMs: 1 }),
+      "done",
+    );
+    assert.equal(calls(), 3);
+    assert.equal(stats.retries, 2);
+  });
+
+  it("throws other failures at once", async () => {
+    const { operation, calls } = failing(1, () => new Error("bad request"));
+    await assert.rejects(
+      withRetry(operation, { isRetryable: () => false, baseDelayMs: 1 }),
+      /bad request/,
+    );
+    assert.equal(calls(), 1);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const { operation, calls } = failing(10);
+    await assert.rejects(
+      withRetry(operation, { isRetryable: () => true, maxAttempts: 3, baseDelayMs: 1 }),
+      /busy/,
+    );
+    assert.equal(calls(), 3);
+  });
+
+  it("waits as long as Retry-After asks, but not longer than maxDelayMs", async () => {
+    const retryAfter = (ms: number) => () => Object.assign(new Error("slow down"), { retryAfterMs: ms });
+    const short = failing(1, retryAfter(20));
+    const started = Date.now();
+    await withRetry(short.operation, { isRetryable: () => true });
+    assert.ok(Date.now() - started >= 15);
+
+    const long = failing(1, retryAfter(60_000));
+    await assert.rejects(withRetry(long.operation, { isRetryable: () => true }), /slow down/);
+    assert.equal(long.calls(), 1);
+  });
+
+  it("stops waiting when the signal aborts", async () => {
+    const controller = new AbortController();
+    const { operation, calls } = failing(10, () =>
+      Object.assign(new Error("busy"), { retryAfterMs: 5_000 }),
+    );
+    setTimeout(() => controller.abort(new Error("cancelled")), 20);
+    const started = Date.now();
+    await assert.rejects(
+      withRetry(operation, { isRetryable: () => true, signal: controller.signal }),
+      /cancelled/,
+    );
+    assert.ok(Date.now() - started < 1_000);
+    assert.equal(calls(), 1);
+  });
+
+  it("does not retry once the signal has aborted", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+    const { operation, calls } = failing(1);
+    await assert.rejects(
+      withRetry(operation, { isRetryable: () => true, signal: controller.signal }),
+      /cancelled/,
+    );
+    assert.equal(calls(), 1);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2024-05-01T10:00:00Z");
+
+  it("reads seconds and HTTP dates", () => {
+    assert.equal(parseRetryAfter("3", now), 3_000);
+    assert.equal(parseRetryAfter("Wed, 01 May 2024 10:00:05 GMT", now), 5_000);
+  });
+
+  it("never returns a negative wait and ignores junk", () => {
+    assert.equal(parseRetryAfter("Wed, 01 May 2024 09:00:00 GMT", now), 0);
+    assert.equal(parseRetryAfter("soon", now), undefined);
+    assert.equal(parseRetryAfter(null, now), undefined);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("retries rate limits and server errors only", () => {
+    assert.deepEqual(
+      [400, 404, 429, 500, 503].map(isRetryableStatus),
+      [false, false, true, true, true],
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Framer, ManagedCollectionItemInput } from "framer-api";
+import { fingerprintCollectionItem } from "../src/mapping";
+import {
+  chunkItems,
+  decodeContinuationToken,
+  encodeContinuationToken,
+  getCollectionItems,
+  loadItemHashes,
+  PLUGIN_KEYS,
+  saveItemHashes,
+  writeItemsInBatches,
+  type CollectionHandle,
+} from "../src/session";
+
+function item(id: string, text = ""): ManagedCollectionItemInput {
+  return { id, slug: id, fieldData: { body: { type: "string", value: text } } };
+}
+
+function fakeHandle(
+  addItems: (items: ManagedCollectionItemInput[]) => Promise<void>,
+): CollectionHandle {
+  return {
+    collection: { addItems },
+    collectionId: "collection-1",
+    collectionName: "Posts",
+    created: false,
+    fields: [],
+    itemIds: [],
+    itemHashes: {},
+    unsavedHashIds: new Set(),
+    items: null,
+    codaTableId: null,
+    retryStats: { retries: 0 },
+  } as unknown as CollectionHandle;
+}
+
+describe("chunkItems", () => {
+  it("splits by item count", () => {
+    const items = Array.from({ length: 5 }, (_, index) => item(`i-${index}`));
+    const batches = chunkItems(items, 2, Number.POSITIVE_INFINITY);
+    assert.deepEqual(
+      batches.map((batch) => batch.map((entry) => entry.id)),
+      [["i-0", "i-1"], ["i-2", "i-3"], ["i-4"]],
+    );
+  });
+
+  it("splits by serialized size and gives an oversized item its own batch", () => {
+    const items = [item("small-1"), item("huge", "x".repeat(500)), item("small-2")];
+    const batches = chunkItems(items, 100, 200);
+    assert.deepEqual(
+      batches.map((batch) => batch.map((entry) => entry.id)),
+      [["small-1"], ["huge"], ["small-2"]],
+    );
+  });
+
+  it("returns no batches for no items", () => {
+    assert.deepEqual(chunkItems([]), []);
+  });
+});
+
+describe("continuation tokens", () => {
+  const handle = fakeHandle(async () => {});
+
+  it("round-trips the offset", () => {
+    const token = encodeContinuationToken(handle, 200, 450);
+    assert.equal(decodeContinuationToken(token, handle, 450), 200);
+  });
+
+  it("rejects a token for another collection or payload size", () => {
+    const token = encodeContinuationToken(handle, 200, 450);
+    assert.throws(() => decodeContinuationToken(token, handle, 451), /does not match/);
+    assert.throws(
+      () => decodeContinuationToken(token, { ...handle, collectionId: "other" }, 450),
+      /does not match/,
+    );
+  });
+
+  it("rejects malformed offsets", () => {
+    for (const token of ["collection-1:abc:450", "collection-1:-1:450", "collection-1:451:450"]) {
+      assert.throws(() => decodeContinuationToken(token, handle, 450), /does not match/);
+    }
+  });
+});
+
+describe("writeItemsInBatches", () => {
+  const items = Array.from({ length: 250 }, (_, index) => item(`i-${index}`));
+
+  it("writes every batch and reports no resume point", async () => {
+    const written: string[] = [];
+    const handle = fakeHandle(async (batch) => {
+      written.push(...batch.map((entry) => entry.id));
+    });
+    const result = await writeItemsInBatches(handle, items);
+    assert.equal(result.written, 250);
+    assert.equal(result.batchesTotal, 3);
+    assert.equal(result.nextOffset, null);
+    assert.deepEqual(written, items.map((entry) => entry.id));
+    assert.equal(handle.itemIds.length, 250);
+  });
+
+  it("stops after the first batch once the deadline has passed", async () => {
+    const handle = fakeHandle(async () => {});
+    const result = await writeItemsInBatches(handle, items, { deadline: Date.now() - 1 });
+    assert.equal(result.batchesSucceeded, 1);
+    assert.equal(result.nextOffset, 100);
+    assert.equal(result.error, undefined);
+  });
+
+  it("resumes from an offset and skips unchanged items", async () => {
+    const handle = fakeHandle(async () => {});
+    const result = await writeItemsInBatches(handle, items, {
+      offset: 200,
+      skip: (entry) => entry.id === "i-210",
+    });
+    assert.equal(result.written, 49);
+    assert.ok(!result.writtenIds.includes("i-210"));
+    assert.equal(result.nextOffset, null);
+  });
+
+  it("reports a failed batch with the offset to retry from", async () => {
+    let calls = 0;
+    const handle = fakeHandle(async () => {
+      calls += 1;
+      if (calls === 2) throw new Error("payload rejected");
+    });
+    const result = await writeItemsInBatches(handle, items);
+    assert.equal(result.written, 100);
+    assert.equal(result.nextOffset, 100);
+    assert.match(result.error ?? "", /Batch 2 of 3 failed: payload rejected/);
+  });
+});
+
+describe("item hashes", () => {
+  function fakeCollection(count: number) {
+    const pluginData = new Map<string, string>();
+    const stats = { listCalls: 0, inFlight: 0, maxInFlight: 0 };
+    const items = Array.from({ length: count }, (_, index) => ({
+      id: `i-${index}`,
+      slug: `i-${index}`,
+      draft: false,
+      fieldData: { title: { type: "string", value: `Title ${index}` } },
+      async setPluginData(key: string, value: string) {
+        stats.inFlight += 1;
+        stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        stats.inFlight -= 1;
+        pluginData.set(`${this.id}:${key}`, value);
+      },
+      async getPluginData(key: string) {
+        return pluginData.get(`${this.id}:${key}`) ?? null;
+      },
+    }));
+    const framer = {
+      getCollection: async () => ({
+        getItems: async () => {
+          stats.listCalls += 1;
+          return items;
+        },
+      }),
+    } as unknown as Framer;
+    const handle = fakeHandle(async () => {});
+    handle.itemIds = items.map((entry) => entry.id);
+    return { framer, handle, items, pluginData, stats };
+  }
+
+  it("saves hashes a chunk at a time and reads them back", async () => {
+    const { framer, handle, items, stats } = fakeCollection(60);
+    for (const entry of items) {
+      handle.itemHashes[entry.id] = `hash-${entry.id}`;
+      handle.unsavedHashIds.add(entry.id);
+    }
+    assert.deepEqual(await saveItemHashes(framer, handle), []);
+    assert.equal(handle.unsavedHashIds.size, 0);
+    assert.ok(stats.maxInFlight <= 25, `${stats.maxInFlight} calls in flight`);
+
+    handle.itemHashes = {};
+    await loadItemHashes(framer, handle, { ids: ["i-1", "i-2"] });
+    assert.deepEqual(handle.itemHashes, { "i-1": "hash-i-1", "i-2": "hash-i-2" });
+    assert.equal(stats.listCalls, 1);
+  });
+
+  it("drops a stored hash once the item was edited elsewhere", async () => {
+    const { framer, handle, items, pluginData } = fakeCollection(2);
+    pluginData.set(`i-0:${PLUGIN_KEYS.ITEM_HASH}`, `h0 ${fingerprintCollectionItem(items[0]!)}`);
+    pluginData.set(`i-1:${PLUGIN_KEYS.ITEM_HASH}`, "h1 stale-fingerprint");
+    await loadItemHashes(framer, handle);
+    assert.deepEqual(handle.itemHashes, { "i-0": "h0" });
+  });
+
+  it("warns instead of throwing when the deadline has passed", async () => {
+    const { framer, handle, items } = fakeCollection(3);
+    for (const entry of items) handle.unsavedHashIds.add(entry.id);
+    const warnings = await saveItemHashes(framer, handle, Date.now() - 1);
+    assert.match(warnings[0] ?? "", /next push rewrites 3 item/);
+  });
+
+  it("lists the collection once until items are written", async () => {
+    const { framer, handle, stats } = fakeCollection(3);
+    await getCollectionItems(framer, handle);
+    await getCollectionItems(framer, handle);
+    assert.equal(stats.listCalls, 1);
+    const written = fakeHandle(async () => {});
+    Object.assign(handle, { collection: written.collection });
+    await writeItemsInBatches(handle, [item("i-9")]);
+    await getCollectionItems(framer, handle);
+    assert.equal(stats.listCalls, 2);
+  });
+});
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseWebhookEvents } from "../src/webhook";
+
+describe("parseWebhookEvents", () => {
+  it("accepts the event name spellings Coda automations produce", () => {
+    const { events, errors } = parseWebhookEvents([
+      { event: "rowAdded", tableId: "grid-1", rowId: "i-1" },
+      { event: "row changed", tableId: "grid-1", rowId: "i-2" },
+      { event: "ROW_DELETED", tableId: "grid-2", rowIds: ["i-3", "i-4"] },
+    ]);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(events, [
+      { type: "changed", tableId: "grid-1", rowIds: ["i-1"] },
+      { type: "changed", tableId: "grid-1", rowIds: ["i-2"] },
+      { type: "deleted", tableId: "grid-2", rowIds: ["i-3", "i-4"] },
+    ]);
+  });
+
+  it("accepts a single event object", () => {
+    const { events } = parseWebhookEvents({ event: "rowUpdated", tableId: "grid-1", rowId: "i-1" });
+    assert.deepEqual(events, [{ type: "changed", tableId: "grid-1", rowIds: ["i-1"] }]);
+  });
+
+  it("reports each invalid event and keeps the valid ones", () => {
+    const { events, errors } = parseWebhookEvents([
+      "rowAdded",
+      { event: "rowMoved", tableId: "grid-1", rowId: "i-1" },
+      { event: "rowAdded", rowId: "i-1" },
+      { event: "rowAdded", tableId: "grid-1", rowIds: ["", 5] },
+      { event: "rowDeleted", tableId: "grid-1", rowId: "i-9" },
+    ]);
+    assert.deepEqual(errors, [
+      "Event 1 must be an object.",
+      'Event 2 has unknown event "rowMoved"; use rowAdded, rowChanged or rowDeleted.',
+      "Event 3 needs a tableId.",
+      "Event 4 needs a rowId or rowIds.",
+    ]);
+    assert.deepEqual(events, [{ type: "deleted", tableId: "grid-1", rowIds: ["i-9"] }]);
+  });
+});